@@ -0,0 +1,104 @@
+/**
+ * Bandwidth and CPU cost of the client frame encodings.
+ *
+ * For a few representative notifications, measures the bytes on the wire
+ * and the time to produce (server) and consume (client) one frame as JSON
+ * and MessagePack, each with and without `permessage-deflate` — compressed
+ * per message, with no context takeover, as the gateway negotiates it.
+ *
+ *   npm run bench:encoding [-- --level 1 --iterations 5000]
+ */
+import { inflateRawSync, deflateRawSync } from 'zlib';
+import { decodeFrame, encodeFrame, FrameEncoding } from '../src/subscriptions/frame-encoding';
+
+function arg(name: string, fallback: number): number {
+  const i = process.argv.indexOf(`--${name}`);
+  return i === -1 ? fallback : Number(process.argv[i + 1]);
+}
+
+const level = arg('level', 1);
+const iterations = arg('iterations', 5000);
+
+/** Account data that looks like the real thing: mostly zeros, some noise. */
+function accountData(bytes: number): string {
+  const buf = Buffer.alloc(bytes);
+  let seed = bytes;
+  for (let i = 0; i < bytes; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    if (seed % 4 === 0) buf[i] = seed & 0xff;
+  }
+  return buf.toString('base64');
+}
+
+function accountNotification(dataBytes: number) {
+  return {
+    jsonrpc: '2.0',
+    method: 'programNotification',
+    params: {
+      subscription: 'sub_3f9c2a1b7d4e',
+      result: {
+        context: { slot: 312_456_789 },
+        value: {
+          pubkey: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+          account: {
+            data: [accountData(dataBytes), 'base64'],
+            executable: false,
+            lamports: 2_039_280,
+            owner: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+            rentEpoch: 18_446_744_073_709_551_615,
+            space: dataBytes,
+          },
+        },
+      },
+    },
+  };
+}
+
+const payloads: [string, unknown][] = [
+  [
+    'slotNotification',
+    {
+      jsonrpc: '2.0',
+      method: 'slotNotification',
+      params: { subscription: 'sub_3f9c2a1b7d4e', result: { parent: 312_456_788, root: 312_456_757, slot: 312_456_789 } },
+    },
+  ],
+  ['token account (165 B)', accountNotification(165)],
+  ['program account (2 KB)', accountNotification(2048)],
+  ['program account (10 KB)', accountNotification(10_240)],
+];
+
+/** Mean microseconds per call of `fn`. */
+function time(fn: () => void): number {
+  for (let i = 0; i < 1000; i++) fn();
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) fn();
+  return Number(process.hrtime.bigint() - start) / 1000 / iterations;
+}
+
+const toBuffer = (frame: string | Uint8Array) =>
+  typeof frame === 'string' ? Buffer.from(frame) : Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength);
+
+const rows: Record<string, string | number>[] = [];
+for (const [name, payload] of payloads) {
+  for (const encoding of ['json', 'msgpack'] as FrameEncoding[]) {
+    const frame = toBuffer(encodeFrame(encoding, payload));
+    const isBinary = encoding === 'msgpack';
+    const deflated = deflateRawSync(frame, { level });
+
+    rows.push({
+      payload: name,
+      encoding,
+      bytes: frame.length,
+      'encode µs': time(() => encodeFrame(encoding, payload)).toFixed(1),
+      'decode µs': time(() => decodeFrame(encoding, frame, isBinary)).toFixed(1),
+      'deflated bytes': deflated.length,
+      'saved %': ((1 - deflated.length / frame.length) * 100).toFixed(0),
+      'encode+deflate µs': time(() => deflateRawSync(toBuffer(encodeFrame(encoding, payload)), { level })).toFixed(1),
+      'inflate+decode µs': time(() => decodeFrame(encoding, inflateRawSync(deflated), isBinary)).toFixed(1),
+    });
+  }
+}
+
+console.log(`zlib level ${level}, ${iterations} iterations per measurement`);
+console.table(rows);
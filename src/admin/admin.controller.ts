@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ClientConnectionService } from '../subscriptions/client-connection.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { UpstreamService } from '../upstream/upstream.service';
+import { AdminGuard } from './admin.guard';
+
+/** Close code for sockets disconnected through the admin API */
+const CLOSE_ADMIN_DISCONNECT = 4009;
+
+/**
+ * Operator API under `/admin` for inspecting and managing live proxy
+ * state. Every route requires the admin token (see {@link AdminGuard}).
+ */
+@Controller('admin')
+@UseGuards(AdminGuard)
+export class AdminController {
+  constructor(
+    private readonly clients: ClientConnectionService,
+    private readonly subscriptions: SubscriptionsService,
+    private readonly upstream: UpstreamService,
+  ) {}
+
+  /** List client connections with address, origin, connect time and message counts. */
+  @Get('connections')
+  connections() {
+    return this.clients.list().map((conn) => ({
+      ...conn,
+      subscriptions: this.subscriptions.subscriptionCount(conn.connectionId),
+    }));
+  }
+
+  /** Close a client connection with code 4009; its subscriptions get the usual grace period. */
+  @Delete('connections/:id')
+  @HttpCode(204)
+  disconnect(@Param('id') id: string) {
+    if (!this.clients.close(id, CLOSE_ADMIN_DISCONNECT, 'Disconnected by operator')) {
+      throw new NotFoundException(`Unknown connection: ${id}`);
+    }
+  }
+
+  /** List upstream subscriptions and the client subscriptions attached to each. */
+  @Get('subscriptions')
+  listSubscriptions() {
+    return this.subscriptions.list();
+  }
+
+  /** Tear down an upstream subscription, by canonical key, and all its client subscriptions. */
+  @Delete('subscriptions/:key')
+  @HttpCode(204)
+  teardown(@Param('key') key: string) {
+    if (!this.subscriptions.forceTeardown(key)) {
+      throw new NotFoundException(`Unknown subscription: ${key}`);
+    }
+  }
+
+  /** Reconnect one upstream pool connection (`?connection=N`) or all of them. */
+  @Post('upstream/reconnect')
+  @HttpCode(202)
+  reconnect(@Query('connection', new ParseIntPipe({ optional: true })) connection?: number) {
+    if (!this.upstream.reconnect(connection)) {
+      throw new NotFoundException(`Unknown upstream connection: ${connection}`);
+    }
+    return { reconnecting: connection ?? 'all' };
+  }
+
+  /** Drop the replay server's sockets (`UPSTREAM_MODE=replay` only). */
+  @Post('upstream/disconnect')
+  @HttpCode(202)
+  injectDisconnect() {
+    const dropped = this.upstream.injectDisconnect();
+    if (dropped === null) {
+      throw new NotFoundException('Upstream is not in replay mode');
+    }
+    return { dropped };
+  }
+}
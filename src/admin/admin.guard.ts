@@ -0,0 +1,37 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Admits requests carrying `Authorization: Bearer <ADMIN_TOKEN>`. The admin
+ * API is disabled (every request is forbidden) while `ADMIN_TOKEN` is unset.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly token: Buffer | null;
+
+  constructor(config: ConfigService) {
+    const token = config.get<string>('ADMIN_TOKEN', '');
+    this.token = token ? digest(token) : null;
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.token) throw new ForbiddenException('Admin API is disabled');
+    const authorization = context.switchToHttp().getRequest<IncomingMessage>().headers.authorization;
+    if (!authorization?.startsWith('Bearer ')) throw new UnauthorizedException();
+    // Compare fixed-length digests so timing reveals nothing about the token
+    if (!timingSafeEqual(digest(authorization.slice(7).trim()), this.token)) {
+      throw new UnauthorizedException();
+    }
+    return true;
+  }
+}
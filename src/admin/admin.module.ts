@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { UpstreamModule } from '../upstream/upstream.module';
+import { AdminController } from './admin.controller';
+import { AdminGuard } from './admin.guard';
+
+@Module({
+  imports: [SubscriptionsModule, UpstreamModule],
+  controllers: [AdminController],
+  providers: [AdminGuard],
+})
+export class AdminModule {}
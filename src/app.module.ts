@@ -6,14 +6,24 @@ import { UpstreamModule } from './upstream/upstream.module';
 import { SubscriptionsModule } from './subscriptions/subscriptions.module';
 import { GatewayModule } from './gateway/gateway.module';
 import { HealthController } from './health/health.controller';
+import { MetricsModule } from './metrics/metrics.module';
+import { ClusterModule } from './cluster/cluster.module';
+import { AdminModule } from './admin/admin.module';
+import { DrainModule } from './drain/drain.module';
+import { SignaturesModule } from './signatures/signatures.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true, load: [envConfig] }),
     EventEmitterModule.forRoot(),
+    MetricsModule,
     UpstreamModule,
+    ClusterModule,
     SubscriptionsModule,
     GatewayModule,
+    AdminModule,
+    DrainModule,
+    SignaturesModule,
   ],
   controllers: [HealthController],
 })
@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { ClientAuthenticator, ClientPolicy } from './auth.types';
+
+interface ApiKeyEntry extends ClientPolicy {
+  key: string;
+}
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Authenticates static API keys listed in a JSON file:
+ *
+ * ```json
+ * { "keys": [{ "key": "…", "label": "dashboard", "allowedMethods": ["accountSubscribe"], "maxSubscriptions": 50 }] }
+ * ```
+ *
+ * Keys are held in memory only as SHA-256 hashes.
+ */
+export class ApiKeyAuthenticator implements ClientAuthenticator {
+  readonly name = 'api-key';
+  private readonly policies = new Map<string, ClientPolicy>();
+
+  constructor(path: string) {
+    const file = JSON.parse(readFileSync(path, 'utf8')) as { keys?: ApiKeyEntry[] };
+    for (const { key, ...policy } of file.keys ?? []) {
+      if (typeof key !== 'string' || !key) continue;
+      this.policies.set(hashKey(key), { ...policy, label: policy.label ?? 'api-key' });
+    }
+  }
+
+  get size(): number {
+    return this.policies.size;
+  }
+
+  authenticate(credential: string): ClientPolicy | null {
+    return this.policies.get(hashKey(credential)) ?? null;
+  }
+}
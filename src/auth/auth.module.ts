@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { ClientAuthGuard } from './client-auth.guard';
+
+@Module({
+  providers: [AuthService, ClientAuthGuard],
+  exports: [AuthService, ClientAuthGuard],
+})
+export class AuthModule {}
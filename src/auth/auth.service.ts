@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IncomingMessage } from 'http';
+import { ApiKeyAuthenticator } from './api-key.authenticator';
+import { JwtAuthenticator } from './jwt.authenticator';
+import { ClientAuthenticator, ClientPolicy } from './auth.types';
+
+/** Policy given to every client when authentication is disabled */
+export const ANONYMOUS_POLICY: ClientPolicy = { label: 'anonymous' };
+
+/**
+ * Client authentication for the gateway.
+ *
+ * Builds the configured {@link ClientAuthenticator}s — API keys from
+ * `AUTH_KEYS_FILE`, HS256 JWTs signed with `AUTH_JWT_SECRET` — and tries
+ * them in order. Authentication is required as soon as any authenticator
+ * is configured.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly authenticators: ClientAuthenticator[] = [];
+  readonly timeoutMs: number;
+
+  constructor(config: ConfigService) {
+    const keysFile = config.get<string>('AUTH_KEYS_FILE', '');
+    if (keysFile) {
+      const apiKeys = new ApiKeyAuthenticator(keysFile);
+      this.authenticators.push(apiKeys);
+      this.logger.log(`Loaded ${apiKeys.size} API keys from ${keysFile}`);
+    }
+    const jwtSecret = config.get<string>('AUTH_JWT_SECRET', '');
+    if (jwtSecret) {
+      this.authenticators.push(new JwtAuthenticator(jwtSecret));
+    }
+    this.timeoutMs = config.get<number>('AUTH_TIMEOUT_MS', 5000);
+  }
+
+  get enabled(): boolean {
+    return this.authenticators.length > 0;
+  }
+
+  /**
+   * Read a credential from the upgrade request: the `token` or `apiKey`
+   * query param, an `Authorization: Bearer` header, or an `x-api-key` header.
+   */
+  extractCredential(req: IncomingMessage): string | null {
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const fromQuery = query.get('token') ?? query.get('apiKey');
+    if (fromQuery) return fromQuery;
+
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) return authorization.slice(7).trim();
+
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : null;
+  }
+
+  /** Return the policy for a credential, or `null` if no authenticator accepts it. */
+  authenticate(credential: string): ClientPolicy | null {
+    for (const authenticator of this.authenticators) {
+      const policy = authenticator.authenticate(credential);
+      if (policy) return policy;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,19 @@
+/** What an authenticated client is allowed to do */
+export interface ClientPolicy {
+  /** Human-readable name of the key or token holder, used in logs */
+  label: string;
+  /** Subscribe methods the client may use (all enabled methods if omitted) */
+  allowedMethods?: string[];
+  /** Maximum concurrent subscriptions per connection (unlimited if omitted) */
+  maxSubscriptions?: number;
+}
+
+/**
+ * A pluggable credential check. Each authenticator inspects the credential
+ * the client presented and returns its policy, or `null` if the credential
+ * isn't one it recognises or is invalid.
+ */
+export interface ClientAuthenticator {
+  readonly name: string;
+  authenticate(credential: string): ClientPolicy | null;
+}
@@ -0,0 +1,34 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { IncomingMessage } from 'http';
+import { ANONYMOUS_POLICY, AuthService } from './auth.service';
+import { ClientPolicy } from './auth.types';
+
+type AuthenticatedRequest = IncomingMessage & { clientPolicy?: ClientPolicy };
+
+/**
+ * Authenticates HTTP client endpoints with the same credentials the
+ * WebSocket gateway accepts (see {@link AuthService.extractCredential}).
+ * The resulting policy is available through {@link requestPolicy}.
+ */
+@Injectable()
+export class ClientAuthGuard implements CanActivate {
+  constructor(private readonly auth: AuthService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!this.auth.enabled) {
+      req.clientPolicy = ANONYMOUS_POLICY;
+      return true;
+    }
+    const credential = this.auth.extractCredential(req);
+    const policy = credential ? this.auth.authenticate(credential) : null;
+    if (!policy) throw new UnauthorizedException();
+    req.clientPolicy = policy;
+    return true;
+  }
+}
+
+/** The policy {@link ClientAuthGuard} attached to a request. */
+export function requestPolicy(req: IncomingMessage): ClientPolicy {
+  return (req as AuthenticatedRequest).clientPolicy ?? ANONYMOUS_POLICY;
+}
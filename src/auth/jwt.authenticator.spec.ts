@@ -0,0 +1,75 @@
+import { createHmac } from 'crypto';
+import { JwtAuthenticator } from './jwt.authenticator';
+
+const SECRET = 'test-secret';
+
+const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+
+/** A JWT with the given claims, HMAC-SHA256 signed whatever alg the header names */
+function sign(claims: object, { header = { alg: 'HS256' } as object, secret = SECRET } = {}) {
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  const signature = createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+}
+
+describe('JwtAuthenticator', () => {
+  const authenticator = new JwtAuthenticator(SECRET);
+  const now = Math.floor(Date.now() / 1000);
+
+  it('reads the policy from the claims', () => {
+    const token = sign({ sub: 'acme', methods: ['accountSubscribe'], maxSubscriptions: 5 });
+
+    expect(authenticator.authenticate(token)).toEqual({
+      label: 'acme',
+      allowedMethods: ['accountSubscribe'],
+      maxSubscriptions: 5,
+    });
+  });
+
+  it('allows everything when the claims set no limits', () => {
+    expect(authenticator.authenticate(sign({}))).toEqual({
+      label: 'jwt',
+      allowedMethods: undefined,
+      maxSubscriptions: undefined,
+    });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(authenticator.authenticate(sign({ sub: 'acme' }, { secret: 'other' }))).toBeNull();
+  });
+
+  it('rejects a token whose claims were changed after signing', () => {
+    const [header, , signature] = sign({ sub: 'acme', maxSubscriptions: 5 }).split('.');
+    const forged = `${header}.${encode({ sub: 'acme', maxSubscriptions: 500 })}.${signature}`;
+
+    expect(authenticator.authenticate(forged)).toBeNull();
+  });
+
+  it.each(['none', 'HS512', 'RS256'])('rejects alg %s even with a valid HS256 signature', (alg) => {
+    expect(authenticator.authenticate(sign({ sub: 'acme' }, { header: { alg } }))).toBeNull();
+  });
+
+  it('rejects an unsigned token', () => {
+    const [header, payload] = sign({ sub: 'acme' }, { header: { alg: 'none' } }).split('.');
+
+    expect(authenticator.authenticate(`${header}.${payload}.`)).toBeNull();
+  });
+
+  it('enforces exp', () => {
+    expect(authenticator.authenticate(sign({ exp: now + 60 }))).not.toBeNull();
+    expect(authenticator.authenticate(sign({ exp: now }))).toBeNull();
+    expect(authenticator.authenticate(sign({ exp: now - 60 }))).toBeNull();
+  });
+
+  it('enforces nbf', () => {
+    expect(authenticator.authenticate(sign({ nbf: now - 60 }))).not.toBeNull();
+    expect(authenticator.authenticate(sign({ nbf: now + 60 }))).toBeNull();
+  });
+
+  it.each(['', 'abc', 'a.b', 'a.b.c.d', `${encode({ alg: 'HS256' })}.not-json.sig`])(
+    'rejects the malformed token %j',
+    (token) => {
+      expect(authenticator.authenticate(token)).toBeNull();
+    },
+  );
+});
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ClientAuthenticator, ClientPolicy } from './auth.types';
+
+/**
+ * Authenticates HS256-signed JWTs.
+ *
+ * The policy is read from the token's claims: `sub` becomes the label,
+ * `methods` the allowed subscribe methods and `maxSubscriptions` the
+ * per-connection limit. `exp` and `nbf` are enforced when present.
+ */
+export class JwtAuthenticator implements ClientAuthenticator {
+  readonly name = 'jwt';
+
+  constructor(private readonly secret: string) {}
+
+  authenticate(credential: string): ClientPolicy | null {
+    const parts = credential.split('.');
+    if (parts.length !== 3) return null;
+    const [header, payload, signature] = parts;
+
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+      if (alg !== 'HS256') return null;
+
+      const expected = createHmac('sha256', this.secret)
+        .update(`${header}.${payload}`)
+        .digest();
+      const actual = Buffer.from(signature, 'base64url');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+      }
+
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      const now = Math.floor(Date.now() / 1000);
+      if (typeof claims.exp === 'number' && claims.exp <= now) return null;
+      if (typeof claims.nbf === 'number' && claims.nbf > now) return null;
+
+      return {
+        label: typeof claims.sub === 'string' ? claims.sub : 'jwt',
+        allowedMethods: Array.isArray(claims.methods) ? claims.methods : undefined,
+        maxSubscriptions:
+          typeof claims.maxSubscriptions === 'number' ? claims.maxSubscriptions : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
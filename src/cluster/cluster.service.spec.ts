@@ -0,0 +1,166 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ClusterService } from './cluster.service';
+import { MemoryNotificationBus } from './memory-notification-bus';
+import { NotificationBus } from './notification-bus';
+import { RedisNotificationBus } from './redis-notification-bus';
+
+/** A real Redis to run the Redis bus against; its tests are skipped without one */
+const REDIS_URL = process.env.REDIS_URL;
+const LEASE_TTL_MS = 60;
+/** Time for a published message to reach subscribers */
+const DELIVERY_MS = 50;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const named = (emitted: [string, ...unknown[]][], event: string) =>
+  emitted.filter(([name]) => name === event);
+
+/**
+ * Each bus: its `CLUSTER_BUS` mode, its methods (to make them fail), a
+ * direct client, and whether it is available
+ */
+const BUSES: [string, NotificationBus, () => NotificationBus, boolean][] = [
+  ['memory', MemoryNotificationBus.prototype, () => new MemoryNotificationBus(), true],
+  ['redis', RedisNotificationBus.prototype, () => new RedisNotificationBus(REDIS_URL!), !!REDIS_URL],
+];
+
+describe.each(BUSES)('ClusterService on the %s bus', (bus, busMethods, createBus, available) => {
+  if (!available) {
+    it.skip('needs REDIS_URL', () => undefined);
+    return;
+  }
+
+  let instances: ClusterService[] = [];
+  let n = 0;
+  let key: string;
+
+  /** A clustered instance with the events it emitted */
+  const instance = (instanceId: string) => {
+    const events = new EventEmitter2();
+    const emitted: [string, ...unknown[]][] = [];
+    events.onAny((event, ...args) => emitted.push([event as string, ...args]));
+    const config = new ConfigService({
+      CLUSTER_BUS: bus,
+      REDIS_URL,
+      CLUSTER_LEASE_TTL_MS: LEASE_TTL_MS,
+      INSTANCE_ID: instanceId,
+    });
+    const cluster = new ClusterService(config, events);
+    instances.push(cluster);
+    return { cluster, emitted };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  beforeEach(() => {
+    n++;
+    key = `key-${process.pid}-${n}`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    for (const cluster of instances) await cluster.onModuleDestroy();
+    instances = [];
+  });
+
+  it('elects the first instance to join a key and relays its notifications to followers', async () => {
+    const a = instance('a');
+    const b = instance('b');
+
+    expect(await a.cluster.join(key)).toBe(true);
+    expect(await b.cluster.join(key)).toBe(false);
+
+    a.cluster.publish(key, 'accountNotification', { value: 1 });
+    b.cluster.publish(key, 'accountNotification', { value: 2 });
+    await sleep(DELIVERY_MS);
+
+    expect(named(b.emitted, 'cluster.notification')).toEqual([
+      ['cluster.notification', key, 'accountNotification', { value: 1 }],
+    ]);
+    expect(named(a.emitted, 'cluster.notification')).toEqual([]);
+  });
+
+  it('hands a key over to a follower as soon as the leader leaves it', async () => {
+    const a = instance('a');
+    const b = instance('b');
+    await a.cluster.join(key);
+    await b.cluster.join(key);
+
+    a.cluster.leave(key);
+    await sleep(DELIVERY_MS);
+
+    expect(b.cluster.isLeader(key)).toBe(true);
+    expect(named(b.emitted, 'cluster.elected')).toEqual([['cluster.elected', key]]);
+  });
+
+  it('elects a follower once the leader stops renewing its lease', async () => {
+    const a = instance('a');
+    const b = instance('b');
+    await a.cluster.join(key);
+    await b.cluster.join(key);
+    const acquireLease = busMethods.acquireLease;
+    jest.spyOn(busMethods, 'acquireLease').mockImplementation(async function (
+      this: NotificationBus,
+      name: string,
+      owner: string,
+      ttlMs: number,
+    ) {
+      if (owner === 'a') throw new Error('bus unreachable');
+      return acquireLease.call(this, name, owner, ttlMs);
+    });
+
+    await sleep(LEASE_TTL_MS * 2.5);
+
+    expect(b.cluster.isLeader(key)).toBe(true);
+    expect(named(b.emitted, 'cluster.elected')).toEqual([['cluster.elected', key]]);
+  });
+
+  it('demotes a leader that cannot reach the bus for a whole lease TTL', async () => {
+    const a = instance('a');
+    await a.cluster.join(key);
+    jest.spyOn(busMethods, 'acquireLease').mockRejectedValue(new Error('bus unreachable'));
+
+    await sleep(LEASE_TTL_MS / 2);
+    expect(a.cluster.isLeader(key)).toBe(true);
+
+    await sleep(LEASE_TTL_MS * 1.5);
+    expect(a.cluster.isLeader(key)).toBe(false);
+    expect(named(a.emitted, 'cluster.demoted')).toEqual([['cluster.demoted', key]]);
+  });
+
+  it('demotes a leader whose lease another instance took', async () => {
+    const a = instance('a');
+    await a.cluster.join(key);
+    const other = createBus();
+    await other.releaseLease(`leader:${key}`, 'a');
+    await other.acquireLease(`leader:${key}`, 'other', 10_000);
+
+    await sleep(LEASE_TTL_MS);
+
+    expect(a.cluster.isLeader(key)).toBe(false);
+    expect(named(a.emitted, 'cluster.demoted')).toEqual([['cluster.demoted', key]]);
+    await other.releaseLease(`leader:${key}`, 'other');
+    await other.close();
+  });
+
+  it('leaves the election of a key still being joined to the join', async () => {
+    const a = instance('a');
+    const subscribe = busMethods.subscribe;
+    // Hold the join open across several heartbeats
+    jest.spyOn(busMethods, 'subscribe').mockImplementation(async function (
+      this: NotificationBus,
+      channel: string,
+      handler: (message: string) => void,
+    ) {
+      await sleep(LEASE_TTL_MS);
+      return subscribe.call(this, channel, handler);
+    });
+
+    expect(await a.cluster.join(key)).toBe(true);
+    await sleep(LEASE_TTL_MS / 2);
+
+    expect(a.cluster.isLeader(key)).toBe(true);
+    expect(named(a.emitted, 'cluster.elected')).toEqual([]);
+  });
+});
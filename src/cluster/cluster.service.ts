@@ -0,0 +1,220 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
+import { MemoryNotificationBus } from './memory-notification-bus';
+import { NotificationBus } from './notification-bus';
+import { RedisNotificationBus } from './redis-notification-bus';
+
+/** What travels on a key's channel */
+type BusMessage = { method: string; result: unknown } | { handoff: true };
+
+const channelName = (key: string) => `notify:${key}`;
+const leaseName = (key: string) => `leader:${key}`;
+
+/**
+ * Shares upstream subscriptions between proxy instances over a
+ * {@link NotificationBus} (`CLUSTER_BUS=memory|redis`).
+ *
+ * Every instance with local subscribers for a canonical key joins that
+ * key. One of them holds the key's lease and is its leader: it keeps the
+ * only upstream subscription for the key and publishes each notification on
+ * the key's channel. The others are followers and fan out what they
+ * receive, emitted as `cluster.notification` events.
+ *
+ * Leases expire after `CLUSTER_LEASE_TTL_MS` and are renewed three times
+ * per TTL. Followers campaign on the same schedule, so when a leader dies
+ * another instance takes over within one TTL and is told through a
+ * `cluster.elected` event; a leader that loses its lease, or can't reach
+ * the bus to renew it for a whole TTL, is told through `cluster.demoted`.
+ * A leader leaving a key releases its lease and announces a handoff so a
+ * follower takes over immediately. Keys still being joined are left out of
+ * campaigns: {@link join} reports the outcome of its own election.
+ */
+@Injectable()
+export class ClusterService implements OnModuleDestroy {
+  private readonly logger = new Logger(ClusterService.name);
+  private readonly bus: NotificationBus | null = null;
+  readonly instanceId: string;
+  private readonly leaseTtlMs: number;
+  /** Joined canonical keys → whether this instance leads them */
+  private readonly keys = new Map<string, boolean>();
+  /** Keys whose {@link join} is in progress */
+  private readonly joining = new Set<string>();
+  /** Led keys → when their lease was last acquired or renewed */
+  private readonly renewedAt = new Map<string, number>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private campaigning = false;
+
+  constructor(
+    config: ConfigService,
+    private readonly events: EventEmitter2,
+  ) {
+    const mode = config.get<string>('CLUSTER_BUS', '');
+    if (mode === 'redis') {
+      this.bus = new RedisNotificationBus(config.get<string>('REDIS_URL', 'redis://localhost:6379'));
+    } else if (mode === 'memory') {
+      this.bus = new MemoryNotificationBus();
+    }
+    this.instanceId = config.get<string>('INSTANCE_ID', '') || randomUUID();
+    this.leaseTtlMs = config.get<number>('CLUSTER_LEASE_TTL_MS', 6000);
+
+    if (this.bus) {
+      this.logger.log(`Cluster bus: ${this.bus.name}, instance ${this.instanceId}`);
+      this.heartbeat = setInterval(() => void this.campaignAll(), Math.ceil(this.leaseTtlMs / 3));
+    }
+  }
+
+  async onModuleDestroy() {
+    if (!this.bus) return;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    // Hand our keys over now rather than after the leases expire
+    for (const key of [...this.keys.keys()]) {
+      await this.release(key);
+    }
+    await this.bus.close();
+  }
+
+  get enabled(): boolean {
+    return this.bus !== null;
+  }
+
+  /** Cluster state for `/health`. */
+  get status() {
+    let leading = 0;
+    for (const leader of this.keys.values()) if (leader) leading++;
+    return {
+      bus: this.bus?.name ?? null,
+      instanceId: this.instanceId,
+      keys: this.keys.size,
+      leading,
+    };
+  }
+
+  isLeader(key: string): boolean {
+    return this.keys.get(key) === true;
+  }
+
+  /**
+   * Start following a key's channel and campaign for its lease.
+   *
+   * @returns Whether this instance is now the key's leader.
+   * @throws If the bus is unreachable.
+   */
+  async join(key: string): Promise<boolean> {
+    if (!this.bus) return true;
+    if (!this.keys.has(key)) this.keys.set(key, false);
+    this.joining.add(key);
+    try {
+      await this.bus.subscribe(channelName(key), (message) => this.handleMessage(key, message));
+      const leader = await this.bus.acquireLease(leaseName(key), this.instanceId, this.leaseTtlMs);
+      if (!this.keys.has(key)) {
+        // Left while joining
+        if (leader) await this.bus.releaseLease(leaseName(key), this.instanceId);
+        return false;
+      }
+      this.keys.set(key, leader);
+      if (leader) this.renewedAt.set(key, Date.now());
+      return leader;
+    } catch (err) {
+      this.keys.delete(key);
+      throw err;
+    } finally {
+      this.joining.delete(key);
+    }
+  }
+
+  /** Stop following a key, handing leadership to another instance if held. */
+  leave(key: string) {
+    if (!this.bus || !this.keys.has(key)) return;
+    void this.release(key);
+  }
+
+  /** Relay a notification received from the upstream, if this instance leads the key. */
+  publish(key: string, method: string, result: unknown) {
+    if (!this.bus || !this.isLeader(key)) return;
+    const message: BusMessage = { method, result };
+    this.bus
+      .publish(channelName(key), JSON.stringify(message))
+      .catch((err) => this.logger.warn(`Cluster publish failed: ${err}`));
+  }
+
+  private async release(key: string) {
+    const leader = this.keys.get(key);
+    this.keys.delete(key);
+    this.renewedAt.delete(key);
+    if (!this.bus) return;
+    try {
+      await this.bus.unsubscribe(channelName(key));
+      if (leader) {
+        await this.bus.releaseLease(leaseName(key), this.instanceId);
+        const message: BusMessage = { handoff: true };
+        await this.bus.publish(channelName(key), JSON.stringify(message));
+      }
+    } catch (err) {
+      this.logger.warn(`Cluster leave failed: ${err}`);
+    }
+  }
+
+  private handleMessage(key: string, raw: string) {
+    // Leaders already delivered it locally
+    if (this.keys.get(key) !== false) return;
+    let message: BusMessage;
+    try {
+      message = JSON.parse(raw) as BusMessage;
+    } catch {
+      return;
+    }
+    if ('handoff' in message) {
+      void this.campaign(key);
+      return;
+    }
+    this.events.emit('cluster.notification', key, message.method, message.result);
+  }
+
+  /** Renew held leases and campaign for the rest; runs three times per lease TTL. */
+  private async campaignAll() {
+    if (this.campaigning) return;
+    this.campaigning = true;
+    try {
+      for (const key of [...this.keys.keys()]) {
+        await this.campaign(key);
+      }
+    } finally {
+      this.campaigning = false;
+    }
+  }
+
+  /**
+   * Renew or campaign for one key's lease. A leader whose renewals have
+   * failed for a whole TTL steps down: its lease may have gone to another
+   * instance by now.
+   */
+  private async campaign(key: string) {
+    if (!this.bus || this.joining.has(key)) return;
+    let leader: boolean;
+    try {
+      leader = await this.bus.acquireLease(leaseName(key), this.instanceId, this.leaseTtlMs);
+    } catch (err) {
+      this.logger.warn(`Cluster lease renewal failed: ${err}`);
+      const renewedAt = this.renewedAt.get(key);
+      if (this.keys.get(key) !== true || renewedAt === undefined) return;
+      if (Date.now() - renewedAt < this.leaseTtlMs) return;
+      leader = false;
+    }
+
+    const current = this.keys.get(key);
+    if (current === undefined) {
+      // Left while campaigning
+      if (leader) await this.bus.releaseLease(leaseName(key), this.instanceId).catch(() => undefined);
+      return;
+    }
+    if (leader) this.renewedAt.set(key, Date.now());
+    if (current === leader || this.joining.has(key)) return;
+
+    this.keys.set(key, leader);
+    if (!leader) this.renewedAt.delete(key);
+    this.logger.log(`${leader ? 'Elected leader' : 'Lost leadership'} for ${key.slice(0, 12)}`);
+    this.events.emit(leader ? 'cluster.elected' : 'cluster.demoted', key);
+  }
+}
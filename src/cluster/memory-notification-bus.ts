@@ -0,0 +1,51 @@
+import { EventEmitter } from 'events';
+import { NotificationBus } from './notification-bus';
+
+/** Channels and leases shared by every in-memory bus in the process */
+const channels = new EventEmitter().setMaxListeners(0);
+const leases = new Map<string, { owner: string; expiresAt: number }>();
+
+/**
+ * Process-local {@link NotificationBus}. A single instance is always the
+ * leader; several buses in one process (e.g. in tests) share channels and
+ * leases as if they were separate instances on a real bus.
+ */
+export class MemoryNotificationBus implements NotificationBus {
+  readonly name = 'memory';
+  private readonly handlers = new Map<string, (message: string) => void>();
+
+  async publish(channel: string, message: string): Promise<void> {
+    channels.emit(channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    await this.unsubscribe(channel);
+    this.handlers.set(channel, handler);
+    channels.on(channel, handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const handler = this.handlers.get(channel);
+    if (!handler) return;
+    this.handlers.delete(channel);
+    channels.off(channel, handler);
+  }
+
+  async acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lease = leases.get(name);
+    if (lease && lease.owner !== owner && lease.expiresAt > now) return false;
+    leases.set(name, { owner, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async releaseLease(name: string, owner: string): Promise<void> {
+    if (leases.get(name)?.owner === owner) leases.delete(name);
+  }
+
+  async close(): Promise<void> {
+    for (const channel of [...this.handlers.keys()]) {
+      await this.unsubscribe(channel);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { MemoryNotificationBus } from './memory-notification-bus';
+import { NotificationBus } from './notification-bus';
+import { RedisNotificationBus } from './redis-notification-bus';
+
+/** A real Redis to run the Redis bus against; its tests are skipped without one */
+const REDIS_URL = process.env.REDIS_URL;
+/** Time for a published message to reach subscribers */
+const DELIVERY_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.each([
+  ['memory', () => new MemoryNotificationBus(), true],
+  ['redis', () => new RedisNotificationBus(REDIS_URL!, `test:${process.pid}:`), !!REDIS_URL],
+])('%s notification bus', (_name, createBus: () => NotificationBus, available: boolean) => {
+  if (!available) {
+    it.skip('needs REDIS_URL', () => undefined);
+    return;
+  }
+
+  let a: NotificationBus;
+  let b: NotificationBus;
+  let n = 0;
+  let channel: string;
+  let lease: string;
+
+  beforeEach(() => {
+    a = createBus();
+    b = createBus();
+    n++;
+    channel = `channel-${n}`;
+    lease = `lease-${n}`;
+  });
+
+  afterEach(async () => {
+    await a.close();
+    await b.close();
+  });
+
+  it('delivers published messages to every subscriber of the channel', async () => {
+    const received: string[] = [];
+    await a.subscribe(channel, (message) => received.push(`a:${message}`));
+    await b.subscribe(channel, (message) => received.push(`b:${message}`));
+    await b.subscribe(`${channel}-other`, (message) => received.push(`other:${message}`));
+
+    await a.publish(channel, 'hello');
+    await sleep(DELIVERY_MS);
+
+    expect(received.sort()).toEqual(['a:hello', 'b:hello']);
+  });
+
+  it('stops delivering after unsubscribe', async () => {
+    const received: string[] = [];
+    await a.subscribe(channel, (message) => received.push(message));
+    await a.unsubscribe(channel);
+
+    await b.publish(channel, 'hello');
+    await sleep(DELIVERY_MS);
+
+    expect(received).toEqual([]);
+  });
+
+  it('grants a lease to one owner until it expires', async () => {
+    expect(await a.acquireLease(lease, 'one', 50)).toBe(true);
+    expect(await b.acquireLease(lease, 'two', 50)).toBe(false);
+    // The holder extends it
+    expect(await a.acquireLease(lease, 'one', 50)).toBe(true);
+
+    await sleep(80);
+    expect(await b.acquireLease(lease, 'two', 50)).toBe(true);
+  });
+
+  it('releases a lease only for its owner', async () => {
+    await a.acquireLease(lease, 'one', 1000);
+
+    await b.releaseLease(lease, 'two');
+    expect(await b.acquireLease(lease, 'two', 1000)).toBe(false);
+
+    await a.releaseLease(lease, 'one');
+    expect(await b.acquireLease(lease, 'two', 1000)).toBe(true);
+  });
+});
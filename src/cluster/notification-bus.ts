@@ -0,0 +1,22 @@
+/**
+ * A pluggable transport shared by every proxy instance: pub/sub channels
+ * for relaying upstream notifications, and expiring leases for electing the
+ * one instance that holds each upstream subscription.
+ */
+export interface NotificationBus {
+  readonly name: string;
+  /** Deliver a message to every instance subscribed to the channel. */
+  publish(channel: string, message: string): Promise<void>;
+  /** Receive messages published to a channel. One handler per channel. */
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  /**
+   * Take a lease if it is free, or extend it if `owner` already holds it.
+   *
+   * @returns Whether `owner` holds the lease for the next `ttlMs`.
+   */
+  acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean>;
+  /** Give up a lease, if `owner` holds it. */
+  releaseLease(name: string, owner: string): Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,76 @@
+import Redis from 'ioredis';
+import { NotificationBus } from './notification-bus';
+
+/** Take the lease if free, extend it if already ours */
+const ACQUIRE_SCRIPT = `
+local owner = redis.call('GET', KEYS[1])
+if not owner then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if owner == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/** Delete the lease only if we hold it */
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * {@link NotificationBus} on Redis: pub/sub for channels, `SET NX PX` keys
+ * with owner-checked scripts for leases. Uses a second connection for
+ * subscriptions, as Redis requires. All names are prefixed so several
+ * deployments can share one Redis.
+ */
+export class RedisNotificationBus implements NotificationBus {
+  readonly name = 'redis';
+  private readonly client: Redis;
+  private readonly subscriber: Redis;
+  private readonly handlers = new Map<string, (message: string) => void>();
+
+  constructor(
+    url: string,
+    private readonly prefix = 'helius-proxy:',
+  ) {
+    this.client = new Redis(url);
+    this.subscriber = this.client.duplicate();
+    this.subscriber.on('message', (channel: string, message: string) => {
+      this.handlers.get(channel)?.(message);
+    });
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(this.prefix + channel, message);
+  }
+
+  async subscribe(channel: string, handler: (message: string) => void): Promise<void> {
+    this.handlers.set(this.prefix + channel, handler);
+    await this.subscriber.subscribe(this.prefix + channel);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (!this.handlers.delete(this.prefix + channel)) return;
+    await this.subscriber.unsubscribe(this.prefix + channel);
+  }
+
+  async acquireLease(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.eval(ACQUIRE_SCRIPT, 1, this.prefix + name, owner, ttlMs);
+    return result === 1;
+  }
+
+  async releaseLease(name: string, owner: string): Promise<void> {
+    await this.client.eval(RELEASE_SCRIPT, 1, this.prefix + name, owner);
+  }
+
+  async close(): Promise<void> {
+    this.subscriber.disconnect();
+    await this.client.quit();
+  }
+}
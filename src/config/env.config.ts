@@ -4,6 +4,51 @@ export interface EnvConfig {
   PORT: number;
   IDLE_TIMEOUT_MS: number;
   ALLOWED_ORIGINS: string;
+  RESUME_BUFFER_SIZE: number;
+  SNAPSHOT_CACHE_SIZE: number;
+  UPSTREAM_POOL_SIZE: number;
+  UPSTREAM_PLACEMENT: 'least-loaded' | 'hash';
+  UPSTREAM_ENDPOINTS_FILE: string;
+  UPSTREAM_NETWORKS_FILE: string;
+  UPSTREAM_FAILOVER_THRESHOLD: number;
+  UPSTREAM_FAILBACK_INTERVAL_MS: number;
+  ENABLED_METHODS: string;
+  DISABLED_METHODS: string;
+  AUTH_KEYS_FILE: string;
+  AUTH_JWT_SECRET: string;
+  AUTH_TIMEOUT_MS: number;
+  CLIENT_IP_HEADER: string;
+  RATE_LIMIT_MESSAGES_PER_SEC: number;
+  RATE_LIMIT_SUBSCRIBES_PER_MIN: number;
+  RATE_LIMIT_MAX_VIOLATIONS: number;
+  RATE_LIMIT_VIOLATION_WINDOW_MS: number;
+  MAX_CONNECTIONS_PER_IP: number;
+  MAX_UPSTREAM_SUBSCRIPTIONS: number;
+  CLIENT_MAX_BUFFERED_BYTES: number;
+  CLIENT_MAX_QUEUED_MESSAGES: number;
+  SLOW_CLIENT_POLICY: 'drop-oldest' | 'conflate' | 'disconnect';
+  CLUSTER_BUS: '' | 'memory' | 'redis';
+  REDIS_URL: string;
+  INSTANCE_ID: string;
+  CLUSTER_LEASE_TTL_MS: number;
+  ADMIN_TOKEN: string;
+  DRAIN_TIMEOUT_MS: number;
+  DRAIN_RECONNECT_DELAY_MS: number;
+  SIGNATURE_WAIT_MAX_TIMEOUT_MS: number;
+  SSE_KEEPALIVE_MS: number;
+  UPSTREAM_QUEUE_MAX: number;
+  UPSTREAM_QUEUE_TIMEOUT_MS: number;
+  RESUBSCRIBE_CONCURRENCY: number;
+  RESUBSCRIBE_RATE_PER_SEC: number;
+  UPSTREAM_MODE: 'live' | 'record' | 'replay';
+  UPSTREAM_RECORDING_FILE: string;
+  REPLAY_PORT: number;
+  REPLAY_SPEED: number;
+  REPLAY_LOOP: boolean;
+  REPLAY_DISCONNECT_EVERY_MS: number;
+  WS_COMPRESSION: boolean;
+  WS_COMPRESSION_THRESHOLD: number;
+  WS_COMPRESSION_LEVEL: number;
 }
 
 export default (): EnvConfig => ({
@@ -12,4 +57,59 @@ export default (): EnvConfig => ({
   PORT: parseInt(process.env.PORT ?? '3000', 10),
   IDLE_TIMEOUT_MS: parseInt(process.env.IDLE_TIMEOUT_MS ?? '300000', 10),
   ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS ?? 'http://localhost:3000',
+  RESUME_BUFFER_SIZE: parseInt(process.env.RESUME_BUFFER_SIZE ?? '100', 10),
+  SNAPSHOT_CACHE_SIZE: parseInt(process.env.SNAPSHOT_CACHE_SIZE ?? '10000', 10),
+  UPSTREAM_POOL_SIZE: parseInt(process.env.UPSTREAM_POOL_SIZE ?? '1', 10),
+  UPSTREAM_PLACEMENT:
+    process.env.UPSTREAM_PLACEMENT === 'hash' ? 'hash' : 'least-loaded',
+  UPSTREAM_ENDPOINTS_FILE: process.env.UPSTREAM_ENDPOINTS_FILE ?? '',
+  UPSTREAM_NETWORKS_FILE: process.env.UPSTREAM_NETWORKS_FILE ?? '',
+  UPSTREAM_FAILOVER_THRESHOLD: parseInt(process.env.UPSTREAM_FAILOVER_THRESHOLD ?? '3', 10),
+  UPSTREAM_FAILBACK_INTERVAL_MS: parseInt(process.env.UPSTREAM_FAILBACK_INTERVAL_MS ?? '30000', 10),
+  ENABLED_METHODS: process.env.ENABLED_METHODS ?? '',
+  DISABLED_METHODS: process.env.DISABLED_METHODS ?? '',
+  AUTH_KEYS_FILE: process.env.AUTH_KEYS_FILE ?? '',
+  AUTH_JWT_SECRET: process.env.AUTH_JWT_SECRET ?? '',
+  AUTH_TIMEOUT_MS: parseInt(process.env.AUTH_TIMEOUT_MS ?? '5000', 10),
+  CLIENT_IP_HEADER: process.env.CLIENT_IP_HEADER ?? '',
+  RATE_LIMIT_MESSAGES_PER_SEC: parseInt(process.env.RATE_LIMIT_MESSAGES_PER_SEC ?? '20', 10),
+  RATE_LIMIT_SUBSCRIBES_PER_MIN: parseInt(process.env.RATE_LIMIT_SUBSCRIBES_PER_MIN ?? '60', 10),
+  RATE_LIMIT_MAX_VIOLATIONS: parseInt(process.env.RATE_LIMIT_MAX_VIOLATIONS ?? '20', 10),
+  RATE_LIMIT_VIOLATION_WINDOW_MS: parseInt(process.env.RATE_LIMIT_VIOLATION_WINDOW_MS ?? '60000', 10),
+  MAX_CONNECTIONS_PER_IP: parseInt(process.env.MAX_CONNECTIONS_PER_IP ?? '20', 10),
+  MAX_UPSTREAM_SUBSCRIPTIONS: parseInt(process.env.MAX_UPSTREAM_SUBSCRIPTIONS ?? '5000', 10),
+  CLIENT_MAX_BUFFERED_BYTES: parseInt(process.env.CLIENT_MAX_BUFFERED_BYTES ?? '1048576', 10),
+  CLIENT_MAX_QUEUED_MESSAGES: parseInt(process.env.CLIENT_MAX_QUEUED_MESSAGES ?? '1000', 10),
+  SLOW_CLIENT_POLICY:
+    process.env.SLOW_CLIENT_POLICY === 'conflate' || process.env.SLOW_CLIENT_POLICY === 'disconnect'
+      ? process.env.SLOW_CLIENT_POLICY
+      : 'drop-oldest',
+  CLUSTER_BUS:
+    process.env.CLUSTER_BUS === 'memory' || process.env.CLUSTER_BUS === 'redis'
+      ? process.env.CLUSTER_BUS
+      : '',
+  REDIS_URL: process.env.REDIS_URL ?? 'redis://localhost:6379',
+  INSTANCE_ID: process.env.INSTANCE_ID ?? process.env.FLY_MACHINE_ID ?? '',
+  CLUSTER_LEASE_TTL_MS: parseInt(process.env.CLUSTER_LEASE_TTL_MS ?? '6000', 10),
+  ADMIN_TOKEN: process.env.ADMIN_TOKEN ?? '',
+  DRAIN_TIMEOUT_MS: parseInt(process.env.DRAIN_TIMEOUT_MS ?? '20000', 10),
+  DRAIN_RECONNECT_DELAY_MS: parseInt(process.env.DRAIN_RECONNECT_DELAY_MS ?? '1000', 10),
+  SIGNATURE_WAIT_MAX_TIMEOUT_MS: parseInt(process.env.SIGNATURE_WAIT_MAX_TIMEOUT_MS ?? '60000', 10),
+  SSE_KEEPALIVE_MS: parseInt(process.env.SSE_KEEPALIVE_MS ?? '15000', 10),
+  UPSTREAM_QUEUE_MAX: parseInt(process.env.UPSTREAM_QUEUE_MAX ?? '1000', 10),
+  UPSTREAM_QUEUE_TIMEOUT_MS: parseInt(process.env.UPSTREAM_QUEUE_TIMEOUT_MS ?? '15000', 10),
+  RESUBSCRIBE_CONCURRENCY: parseInt(process.env.RESUBSCRIBE_CONCURRENCY ?? '10', 10),
+  RESUBSCRIBE_RATE_PER_SEC: parseInt(process.env.RESUBSCRIBE_RATE_PER_SEC ?? '50', 10),
+  UPSTREAM_MODE:
+    process.env.UPSTREAM_MODE === 'record' || process.env.UPSTREAM_MODE === 'replay'
+      ? process.env.UPSTREAM_MODE
+      : 'live',
+  UPSTREAM_RECORDING_FILE: process.env.UPSTREAM_RECORDING_FILE ?? 'upstream-recording.jsonl',
+  REPLAY_PORT: parseInt(process.env.REPLAY_PORT ?? '8910', 10),
+  REPLAY_SPEED: parseFloat(process.env.REPLAY_SPEED ?? '1'),
+  REPLAY_LOOP: process.env.REPLAY_LOOP === 'true',
+  REPLAY_DISCONNECT_EVERY_MS: parseInt(process.env.REPLAY_DISCONNECT_EVERY_MS ?? '0', 10),
+  WS_COMPRESSION: process.env.WS_COMPRESSION === 'true',
+  WS_COMPRESSION_THRESHOLD: parseInt(process.env.WS_COMPRESSION_THRESHOLD ?? '1024', 10),
+  WS_COMPRESSION_LEVEL: parseInt(process.env.WS_COMPRESSION_LEVEL ?? '1', 10),
 });
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { DrainService } from './drain.service';
+
+@Module({
+  imports: [SubscriptionsModule],
+  providers: [DrainService],
+  exports: [DrainService],
+})
+export class DrainModule {}
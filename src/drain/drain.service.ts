@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientConnectionService } from '../subscriptions/client-connection.service';
+import { ServerDrainingMessage } from '../gateway/client-message.types';
+
+/** Close code for sockets still open when the drain period ends ("Service Restart") */
+export const CLOSE_SERVICE_RESTART = 1012;
+
+/**
+ * Graceful shutdown for deploys.
+ *
+ * {@link drain} puts the instance into drain mode: the gateway turns away
+ * new connections, `/health` reports not ready, and every client except
+ * JSON-RPC ones, which can't parse it, is sent `server_draining` with a
+ * suggested reconnect delay. The drain waits up to
+ * `DRAIN_TIMEOUT_MS` for clients to leave on their own, then closes the
+ * rest with code 1012.
+ */
+@Injectable()
+export class DrainService {
+  private readonly logger = new Logger(DrainService.name);
+  private readonly timeoutMs: number;
+  private readonly reconnectDelayMs: number;
+  private drainingSince: number | null = null;
+
+  constructor(
+    private readonly clients: ClientConnectionService,
+    config: ConfigService,
+  ) {
+    this.timeoutMs = config.get<number>('DRAIN_TIMEOUT_MS', 20000);
+    this.reconnectDelayMs = config.get<number>('DRAIN_RECONNECT_DELAY_MS', 1000);
+  }
+
+  get draining(): boolean {
+    return this.drainingSince !== null;
+  }
+
+  /** Drain state for `/health`. */
+  get status() {
+    return this.drainingSince === null
+      ? null
+      : { since: this.drainingSince, deadline: this.drainingSince + this.timeoutMs };
+  }
+
+  /**
+   * Enter drain mode and resolve once every client socket has closed.
+   * Each client's suggested delay is spread between one and two times
+   * `DRAIN_RECONNECT_DELAY_MS` so they don't all reconnect at once.
+   */
+  async drain(): Promise<void> {
+    if (this.draining) return;
+    this.drainingSince = Date.now();
+    this.logger.warn(
+      `Draining ${this.clients.size} client(s), closing stragglers in ${this.timeoutMs}ms`,
+    );
+
+    for (const connectionId of this.clients.ids()) {
+      if (this.clients.isJsonRpc(connectionId)) continue;
+      const notice: ServerDrainingMessage = {
+        type: 'server_draining',
+        reconnectInMs: Math.round(this.reconnectDelayMs * (1 + Math.random())),
+      };
+      this.clients.send(connectionId, notice);
+    }
+
+    await this.waitForClients(this.drainingSince + this.timeoutMs);
+
+    if (this.clients.size > 0) {
+      this.logger.warn(`Closing ${this.clients.size} remaining client(s)`);
+      for (const connectionId of this.clients.ids()) {
+        this.clients.close(connectionId, CLOSE_SERVICE_RESTART, 'Server restarting');
+      }
+      // Give the close handshakes a moment
+      await this.waitForClients(Date.now() + 1000);
+    }
+    this.logger.log('Drain complete');
+  }
+
+  private async waitForClients(deadline: number) {
+    while (this.clients.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+  }
+}
@@ -0,0 +1,4 @@
+/** Parse `ALLOWED_ORIGINS`: a comma-separated list, trailing slashes ignored. */
+export function parseAllowedOrigins(value: string): string[] {
+  return value.split(',').map((o) => o.trim().replace(/\/+$/, ''));
+}
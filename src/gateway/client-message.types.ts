@@ -1,7 +1,16 @@
+import { NotificationFilterSpec } from '../subscriptions/notification-filter';
+import { ThrottleSpec } from '../subscriptions/notification-throttle';
+
 export interface ClientSubscribeMessage {
   action: 'subscribe';
   method: string;
   params?: unknown[];
+  /** Proxy-side filter; notifications that don't match are not sent */
+  filter?: NotificationFilterSpec;
+  /** Dotted paths to keep in each notification's `result` */
+  fields?: string[];
+  /** Per-subscription rate limit, from `throttleMs` or `maxRatePerSec` and `trailing` */
+  throttle?: ThrottleSpec;
 }
 
 export interface ClientUnsubscribeMessage {
@@ -9,7 +18,26 @@ export interface ClientUnsubscribeMessage {
   subscriptionId: string;
 }
 
-export type ClientMessage = ClientSubscribeMessage | ClientUnsubscribeMessage;
+export interface ClientAuthMessage {
+  action: 'auth';
+  token: string;
+}
+
+export interface ClientResumeMessage {
+  action: 'resume';
+  resumeToken: string;
+}
+
+export type ClientMessage =
+  | ClientSubscribeMessage
+  | ClientUnsubscribeMessage
+  | ClientResumeMessage
+  | ClientAuthMessage;
+
+export interface ServerSessionMessage {
+  type: 'session';
+  resumeToken: string;
+}
 
 export interface ServerSubscribedMessage {
   type: 'subscribed';
@@ -17,12 +45,76 @@ export interface ServerSubscribedMessage {
   method: string;
 }
 
+/** Sent when a subscribe waits for a down upstream connection; `subscribed` follows */
+export interface ServerPendingMessage {
+  type: 'pending';
+  subscriptionId: string;
+  method: string;
+}
+
+/** Sent after `subscribed` with the latest notification the proxy already has for it */
+export interface ServerSnapshotMessage {
+  type: 'snapshot';
+  subscriptionId: string;
+  /** Notification method, e.g. `accountNotification` */
+  method: string;
+  result: unknown;
+  /** Slot the notification is for, if it carries one */
+  slot: number | null;
+  /** How long ago the proxy received the notification */
+  ageMs: number;
+}
+
 export interface ServerUnsubscribedMessage {
   type: 'unsubscribed';
   subscriptionId: string;
 }
 
+export interface ServerUpstreamDisconnectedMessage {
+  type: 'upstream_disconnected';
+}
+
+export interface ServerUpstreamRestoredMessage {
+  type: 'upstream_restored';
+  /** How long the upstream connection was down */
+  outageMs: number;
+}
+
+export interface ServerSubscriptionFailedMessage {
+  type: 'subscription_failed';
+  subscriptionId: string;
+  reason: string;
+  /** When the proxy will next retry the upstream subscribe; absent when it gave up */
+  retryInMs?: number;
+}
+
+export interface ServerSubscriptionRestoredMessage {
+  type: 'subscription_restored';
+  subscriptionId: string;
+}
+
+export interface ServerDrainingMessage {
+  type: 'server_draining';
+  /** Suggested wait before reconnecting (to another instance) */
+  reconnectInMs: number;
+}
+
+export interface ServerNotificationsDroppedMessage {
+  type: 'notifications_dropped';
+  /** Notifications discarded because the client was reading too slowly */
+  count: number;
+}
+
 export interface ServerErrorMessage {
   type: 'error';
   message: string;
+  /** Machine-readable error code, e.g. `rate_limited` */
+  code?: string;
+  /** Suggested wait before retrying, for rate-limit errors */
+  retryAfterMs?: number;
+}
+
+export interface ServerResumedMessage {
+  type: 'resumed';
+  subscriptions: { subscriptionId: string; method: string }[];
 }
@@ -0,0 +1,65 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { IncomingMessage, Server } from 'http';
+import { PerMessageDeflateOptions, ServerOptions } from 'ws';
+import { EnvConfig } from '../config/env.config';
+import { selectSubprotocol } from '../subscriptions/frame-encoding';
+
+/**
+ * `WsAdapter` that adds the server options Nest's gateway decorator can't
+ * take from config: `permessage-deflate` negotiation (`WS_COMPRESSION`) and
+ * the subprotocols that select a client's frame encoding.
+ *
+ * It also serves each gateway path's subpaths: Nest only routes upgrades
+ * whose path matches a gateway exactly, so `/ws/devnet?…` is rewritten to
+ * `/ws?…&network=devnet` before Nest sees it.
+ */
+export class ClientWsAdapter extends WsAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly config: ConfigService<EnvConfig, true>,
+  ) {
+    super(app);
+  }
+
+  create(port: number, options: ServerOptions = {}) {
+    const server = super.create(port, {
+      ...options,
+      perMessageDeflate: this.perMessageDeflate(),
+      handleProtocols: selectSubprotocol,
+    });
+    const httpServer: Server | undefined = this.httpServersRegistry.get(port);
+    if (options.path && httpServer) this.routeNetworkPaths(httpServer, options.path);
+    return server;
+  }
+
+  /** Rewrite `<path>/<network>` upgrades to `<path>?network=<network>`. */
+  private routeNetworkPaths(httpServer: Server, path: string) {
+    const prefix = `${path.replace(/\/+$/, '')}/`;
+    // Ahead of Nest's own upgrade listener
+    httpServer.prependListener('upgrade', (req: IncomingMessage) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (!url.pathname.startsWith(prefix)) return;
+      const network = url.pathname.slice(prefix.length);
+      if (!network || network.includes('/')) return;
+      url.searchParams.set('network', network);
+      req.url = `${prefix.slice(0, -1)}${url.search}`;
+    });
+  }
+
+  /**
+   * Deflate options offered to clients, or `false` to decline the
+   * extension. Frames under `WS_COMPRESSION_THRESHOLD` bytes go out
+   * uncompressed; no context takeover keeps per-socket zlib memory bounded.
+   */
+  private perMessageDeflate(): PerMessageDeflateOptions | false {
+    if (!this.config.get('WS_COMPRESSION')) return false;
+    return {
+      threshold: this.config.get('WS_COMPRESSION_THRESHOLD'),
+      zlibDeflateOptions: { level: this.config.get('WS_COMPRESSION_LEVEL') },
+      serverNoContextTakeover: true,
+      clientNoContextTakeover: true,
+    };
+  }
+}
@@ -1,9 +1,16 @@
 import { Module } from '@nestjs/common';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { UpstreamModule } from '../upstream/upstream.module';
+import { AuthModule } from '../auth/auth.module';
+import { DrainModule } from '../drain/drain.module';
 import { WsProxyGateway } from './ws.gateway';
+import { RateLimiterService } from './rate-limiter.service';
+import { SseController } from './sse.controller';
 
 @Module({
-  imports: [SubscriptionsModule],
-  providers: [WsProxyGateway],
+  imports: [SubscriptionsModule, UpstreamModule, AuthModule, DrainModule],
+  controllers: [SseController],
+  providers: [WsProxyGateway, RateLimiterService],
+  exports: [RateLimiterService],
 })
 export class GatewayModule {}
@@ -0,0 +1,35 @@
+/** Standard JSON-RPC 2.0 error codes used in replies to JSON-RPC clients */
+export const JSON_RPC_ERRORS = {
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** Server-defined: the client's policy forbids the request */
+  FORBIDDEN: -32003,
+  /** Server-defined: a rate limit or subscription quota was exceeded */
+  RATE_LIMITED: -32029,
+} as const;
+
+export type JsonRpcId = number | string | null;
+
+/** A validated `*Subscribe` or `*Unsubscribe` request from a JSON-RPC client */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params: unknown[];
+  /** `true` for `*Unsubscribe` requests */
+  unsubscribe: boolean;
+}
+
+export interface JsonRpcSuccessResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: unknown;
+}
+
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  error: { code: number; message: string; data?: unknown };
+}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { RateLimiterService } from './rate-limiter.service';
+
+describe('RateLimiterService', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  /** A limiter allowing one message a second, closing after three violations */
+  const setup = (env: Record<string, unknown> = {}) => {
+    const limiter = new RateLimiterService(
+      new ConfigService({ RATE_LIMIT_MESSAGES_PER_SEC: 1, RATE_LIMIT_MAX_VIOLATIONS: 3, ...env }),
+    );
+    limiter.openConnection('c1', '10.0.0.1');
+    return limiter;
+  };
+  /** Exceed the message limit once */
+  const violate = (limiter: RateLimiterService) => {
+    limiter.consumeMessage('c1');
+    return limiter.consumeMessage('c1');
+  };
+
+  it('flags a connection for disconnect once it reaches the violation limit', () => {
+    const limiter = setup();
+
+    expect(violate(limiter)).toMatchObject({ limit: 'messages', disconnect: false });
+    expect(limiter.consumeMessage('c1')?.disconnect).toBe(false);
+    expect(limiter.consumeMessage('c1')?.disconnect).toBe(true);
+  });
+
+  it('forgets violations older than the window', () => {
+    const limiter = setup({ RATE_LIMIT_VIOLATION_WINDOW_MS: 10_000 });
+
+    for (let i = 0; i < 2; i++) {
+      violate(limiter);
+      jest.advanceTimersByTime(6_000);
+    }
+    // The first violation has expired
+    expect(violate(limiter)?.disconnect).toBe(false);
+    jest.advanceTimersByTime(1_000);
+    expect(violate(limiter)?.disconnect).toBe(true);
+  });
+
+  it('keeps violations for the connection lifetime with a window of 0', () => {
+    const limiter = setup({ RATE_LIMIT_VIOLATION_WINDOW_MS: 0 });
+
+    violate(limiter);
+    jest.advanceTimersByTime(3_600_000);
+    violate(limiter);
+    jest.advanceTimersByTime(3_600_000);
+
+    expect(violate(limiter)?.disconnect).toBe(true);
+  });
+
+  it('caps concurrent connections per address', () => {
+    const limiter = setup({ MAX_CONNECTIONS_PER_IP: 2 });
+    limiter.openConnection('c2', '10.0.0.1');
+
+    expect(limiter.openConnection('c3', '10.0.0.1')).toMatchObject({ limit: 'connections' });
+    expect(limiter.openConnection('c4', '10.0.0.2')).toBeNull();
+    limiter.closeConnection('c2');
+    expect(limiter.openConnection('c3', '10.0.0.1')).toBeNull();
+  });
+});
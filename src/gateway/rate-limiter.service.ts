@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TokenBucket } from './token-bucket';
+
+export type RateLimitName = 'messages' | 'subscribes' | 'connections';
+
+/** Returned when a client exceeds one of its limits */
+export interface RateLimitExceeded {
+  limit: RateLimitName;
+  /** When the client may try again (0 if it should not retry on this socket) */
+  retryAfterMs: number;
+  /** The client has exceeded limits too often and should be disconnected */
+  disconnect: boolean;
+}
+
+interface ConnectionLimits {
+  address: string;
+  messages: TokenBucket | null;
+  subscribes: TokenBucket | null;
+  /** When the connection's recent violations happened, oldest first */
+  violations: number[];
+}
+
+/**
+ * Per-connection and per-address rate limits for the gateway.
+ *
+ * Each connection gets token buckets for messages per second and subscribe
+ * calls per minute; concurrent connections are capped per remote address.
+ * Every exceeded limit counts as a violation, and a connection that racks up
+ * `RATE_LIMIT_MAX_VIOLATIONS` of them within `RATE_LIMIT_VIOLATION_WINDOW_MS`
+ * is flagged for disconnect; older violations are forgotten, so a
+ * long-lived client that trips a limit now and then stays connected (a
+ * window of `0` never forgets them). A limit of `0` disables it.
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly messagesPerSec: number;
+  private readonly subscribesPerMin: number;
+  private readonly maxConnectionsPerIp: number;
+  private readonly maxViolations: number;
+  private readonly violationWindowMs: number;
+
+  private readonly connections = new Map<string, ConnectionLimits>();
+  /** remote address → open connection count */
+  private readonly perAddress = new Map<string, number>();
+
+  constructor(config: ConfigService) {
+    this.messagesPerSec = config.get<number>('RATE_LIMIT_MESSAGES_PER_SEC', 20);
+    this.subscribesPerMin = config.get<number>('RATE_LIMIT_SUBSCRIBES_PER_MIN', 60);
+    this.maxConnectionsPerIp = config.get<number>('MAX_CONNECTIONS_PER_IP', 20);
+    this.maxViolations = config.get<number>('RATE_LIMIT_MAX_VIOLATIONS', 20);
+    this.violationWindowMs = config.get<number>('RATE_LIMIT_VIOLATION_WINDOW_MS', 60_000);
+  }
+
+  /**
+   * Register a new connection from a remote address.
+   *
+   * @returns `null` if accepted, or the exceeded limit if the address already
+   *          holds `MAX_CONNECTIONS_PER_IP` connections.
+   */
+  openConnection(connectionId: string, address: string): RateLimitExceeded | null {
+    const open = this.perAddress.get(address) ?? 0;
+    if (this.maxConnectionsPerIp > 0 && open >= this.maxConnectionsPerIp) {
+      return { limit: 'connections', retryAfterMs: 0, disconnect: true };
+    }
+    this.perAddress.set(address, open + 1);
+    this.connections.set(connectionId, {
+      address,
+      messages: this.messagesPerSec > 0 ? new TokenBucket(this.messagesPerSec, 1000) : null,
+      subscribes: this.subscribesPerMin > 0 ? new TokenBucket(this.subscribesPerMin, 60_000) : null,
+      violations: [],
+    });
+    return null;
+  }
+
+  /** Release a connection's per-address slot and buckets. */
+  closeConnection(connectionId: string) {
+    const limits = this.connections.get(connectionId);
+    if (!limits) return;
+    this.connections.delete(connectionId);
+    const open = (this.perAddress.get(limits.address) ?? 1) - 1;
+    if (open > 0) {
+      this.perAddress.set(limits.address, open);
+    } else {
+      this.perAddress.delete(limits.address);
+    }
+  }
+
+  /** Count one inbound client message. */
+  consumeMessage(connectionId: string): RateLimitExceeded | null {
+    return this.consume(connectionId, 'messages');
+  }
+
+  /** Count one subscribe call. */
+  consumeSubscribe(connectionId: string): RateLimitExceeded | null {
+    return this.consume(connectionId, 'subscribes');
+  }
+
+  private consume(connectionId: string, limit: 'messages' | 'subscribes'): RateLimitExceeded | null {
+    const limits = this.connections.get(connectionId);
+    const bucket = limits?.[limit];
+    if (!limits || !bucket || bucket.take()) return null;
+
+    return {
+      limit,
+      retryAfterMs: bucket.retryAfterMs,
+      disconnect: this.countViolation(limits),
+    };
+  }
+
+  /**
+   * Record a violation and drop those older than the window.
+   *
+   * @returns Whether the connection has reached `RATE_LIMIT_MAX_VIOLATIONS`.
+   */
+  private countViolation(limits: ConnectionLimits): boolean {
+    if (this.maxViolations <= 0) return false;
+    const now = Date.now();
+    const violations = limits.violations;
+    violations.push(now);
+    const expired = this.violationWindowMs > 0 ? now - this.violationWindowMs : -Infinity;
+    while (violations[0] <= expired || violations.length > this.maxViolations) {
+      violations.shift();
+    }
+    return violations.length >= this.maxViolations;
+  }
+}
@@ -0,0 +1,14 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * Client address from `clientIpHeader` (when behind a proxy, e.g.
+ * `fly-client-ip`) or the socket.
+ */
+export function remoteAddress(req: IncomingMessage, clientIpHeader: string): string {
+  if (clientIpHeader) {
+    const header = req.headers[clientIpHeader];
+    const value = Array.isArray(header) ? header[0] : header;
+    if (value) return value.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
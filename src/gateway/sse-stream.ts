@@ -0,0 +1,76 @@
+import { ServerResponse } from 'http';
+import WebSocket from 'ws';
+import { ClientSocket } from '../subscriptions/subscriptions.types';
+
+/**
+ * A `text/event-stream` response wrapped as a {@link ClientSocket}, so SSE
+ * clients share the WebSocket client registry, backpressure and drain.
+ *
+ * Every frame is sent as one event whose `data` is the JSON frame a
+ * WebSocket client would receive, and whose `id` is
+ * `<resumeToken>.<sequence>` — a reconnecting `EventSource` sends it back as
+ * `Last-Event-ID`, which is how SSE clients resume. Headers are written
+ * with the first frame, so the request can still fail with a plain HTTP
+ * error until then. A comment line is written every `keepAliveMs` to keep
+ * intermediaries from timing out an idle stream.
+ */
+export class SseStream implements ClientSocket {
+  private state: number = WebSocket.OPEN;
+  private opened = false;
+  private sequence = 0;
+  private keepAlive: ReturnType<typeof setInterval> | null = null;
+  /** Prefix of every event ID; set once the connection has a session */
+  resumeToken = '';
+
+  constructor(
+    private readonly res: ServerResponse,
+    private readonly keepAliveMs: number,
+  ) {
+    res.on('close', () => {
+      this.state = WebSocket.CLOSED;
+      if (this.keepAlive) clearInterval(this.keepAlive);
+    });
+  }
+
+  get readyState(): number {
+    return this.state;
+  }
+
+  get bufferedAmount(): number {
+    return this.res.writableLength;
+  }
+
+  /** The resume token carried by a `Last-Event-ID`, or `null` if malformed. */
+  static resumeTokenOf(lastEventId: string): string | null {
+    const dot = lastEventId.lastIndexOf('.');
+    return dot > 0 ? lastEventId.slice(0, dot) : null;
+  }
+
+  send(frame: string, cb?: (err?: Error | null) => void) {
+    this.open();
+    this.res.write(`id: ${this.resumeToken}.${this.sequence++}\ndata: ${frame}\n\n`, cb);
+  }
+
+  /** End the stream with a final `close` event carrying the code and reason. */
+  close(code?: number, reason?: string) {
+    if (this.state !== WebSocket.OPEN) return;
+    this.state = WebSocket.CLOSING;
+    this.open();
+    this.res.end(`event: close\ndata: ${JSON.stringify({ code, reason })}\n\n`);
+  }
+
+  private open() {
+    if (this.opened) return;
+    this.opened = true;
+    this.res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop nginx-style proxies from buffering the stream
+      'X-Accel-Buffering': 'no',
+    });
+    if (this.keepAliveMs > 0) {
+      this.keepAlive = setInterval(() => this.res.write(': keep-alive\n\n'), this.keepAliveMs);
+    }
+  }
+}
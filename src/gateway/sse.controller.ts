@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  HttpException,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Query,
+  Req,
+  Res,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  SubscriptionsService,
+  UpstreamLimitError,
+} from '../subscriptions/subscriptions.service';
+import { ClientConnectionService } from '../subscriptions/client-connection.service';
+import { MethodRegistry } from '../subscriptions/method-registry.service';
+import { UpstreamService } from '../upstream/upstream.service';
+import { ClientAuthGuard, requestPolicy } from '../auth/client-auth.guard';
+import { DrainService } from '../drain/drain.service';
+import { ServerErrorMessage, ServerResumedMessage } from './client-message.types';
+import { parseAllowedOrigins } from './allowed-origins.util';
+import { RateLimiterService } from './rate-limiter.service';
+import { remoteAddress } from './remote-address.util';
+import { SseStream } from './sse-stream';
+import { validateClientMessage } from './validation.util';
+
+/** `close` event code of a stream whose subscribe failed after it started */
+const CLOSE_SUBSCRIBE_FAILED = 1011;
+
+/**
+ * Server-Sent Events transport for clients that can't open WebSockets
+ * (e.g. behind proxies that strip the upgrade).
+ *
+ * Each `GET /sse` stream carries one subscription. The stream is registered
+ * with {@link ClientConnectionService} like a socket, so it shares upstream
+ * subscriptions, backpressure, idle cleanup, status frames and drain with
+ * WebSocket clients; frames are the same JSON a WebSocket client receives.
+ * Streams are held to the same `ALLOWED_ORIGINS` as sockets. Event IDs
+ * carry the stream's resume token, so when `EventSource` reconnects with
+ * `Last-Event-ID` the subscription is resumed and notifications buffered
+ * in between are replayed.
+ */
+@Controller('sse')
+@UseGuards(ClientAuthGuard)
+export class SseController {
+  private readonly logger = new Logger(SseController.name);
+  private readonly clientIpHeader: string;
+  private readonly keepAliveMs: number;
+  private readonly allowedOrigins: string[];
+
+  constructor(
+    private readonly subscriptions: SubscriptionsService,
+    private readonly clients: ClientConnectionService,
+    private readonly methods: MethodRegistry,
+    private readonly upstream: UpstreamService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly drain: DrainService,
+    config: ConfigService,
+  ) {
+    this.clientIpHeader = config.get<string>('CLIENT_IP_HEADER', '').toLowerCase();
+    this.keepAliveMs = config.get<number>('SSE_KEEPALIVE_MS', 15000);
+    this.allowedOrigins = parseAllowedOrigins(config.get<string>('ALLOWED_ORIGINS', 'http://localhost:3000'));
+  }
+
+  /**
+   * `GET /sse?method=accountSubscribe&params=[…]&filter={…}&fields=a,b`
+   *
+   * `params` and `filter` are JSON; `fields` is comma-separated;
+   * `throttleMs` or `maxRatePerSec` (and `trailing`) rate-limit the
+   * stream; `network` picks a Solana network other than the default. The
+   * first event is `subscribed` (or `resumed` after a `Last-Event-ID`
+   * reconnect), followed by notifications. Until then,
+   * failures are plain HTTP errors; a subscribe that fails after `pending`
+   * was sent ends the stream with an `error` event.
+   */
+  @Get()
+  async stream(
+    @Query() query: Record<string, string | undefined>,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Req() req: IncomingMessage,
+    @Res() res: ServerResponse,
+  ) {
+    if (this.drain.draining) throw new ServiceUnavailableException('Server draining');
+    const origin = req.headers.origin ?? '';
+    if (!this.allowedOrigins.includes(origin)) {
+      this.logger.warn(`Rejected SSE client from origin: ${origin}`);
+      throw new ForbiddenException('Origin not allowed');
+    }
+
+    const msg = validateClientMessage(this.parseQuery(query), this.methods);
+    if (msg?.action !== 'subscribe') throw new BadRequestException('Invalid subscribe request');
+    const policy = requestPolicy(req);
+    if (policy.allowedMethods && !policy.allowedMethods.includes(msg.method)) {
+      throw new ForbiddenException(`Method not allowed: ${msg.method}`);
+    }
+    const network = this.upstream.resolveNetwork(query.network);
+    if (!network) throw new NotFoundException(`Unknown network: ${query.network}`);
+
+    const stream = new SseStream(res, this.keepAliveMs);
+    const address = remoteAddress(req, this.clientIpHeader);
+    const connectionId = this.clients.register(stream, {
+      transport: 'sse',
+      network,
+      encoding: 'json',
+      remoteAddress: address,
+      origin,
+    });
+    if (this.rateLimiter.openConnection(connectionId, address)) {
+      this.clients.remove(connectionId);
+      throw new HttpException('Too many connections', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    this.clients.setPolicy(connectionId, policy);
+    res.on('close', () => {
+      this.rateLimiter.closeConnection(connectionId);
+      this.clients.remove(connectionId);
+      this.subscriptions.handleDisconnect(connectionId);
+      this.logger.log(`SSE client disconnected: ${connectionId}`);
+    });
+    stream.resumeToken = this.subscriptions.openSession(connectionId);
+
+    const previousToken = lastEventId ? SseStream.resumeTokenOf(lastEventId) : null;
+    const resumed = previousToken ? this.subscriptions.resume(connectionId, previousToken) : null;
+    if (resumed?.length) {
+      const reply: ServerResumedMessage = {
+        type: 'resumed',
+        subscriptions: resumed.map((sub) => ({ subscriptionId: sub.proxySubId, method: sub.method })),
+      };
+      this.clients.send(connectionId, reply);
+      for (const sub of resumed) {
+        this.subscriptions.replayBuffered(sub);
+      }
+      this.logger.log(`SSE client resumed: ${connectionId} (${policy.label})`);
+      return;
+    }
+
+    try {
+      const sub = await this.subscriptions.subscribe(connectionId, network, msg.method, msg.params ?? [], false, {
+        filter: msg.filter,
+        fields: msg.fields,
+        throttle: msg.throttle,
+      });
+      this.clients.send(connectionId, {
+        type: 'subscribed',
+        subscriptionId: sub.proxySubId,
+        method: msg.method,
+      });
+      this.subscriptions.sendSnapshot(sub);
+      this.logger.log(`SSE client connected: ${connectionId} (${policy.label})`);
+    } catch (err) {
+      if (res.headersSent) {
+        this.failStream(stream, connectionId, err);
+        return;
+      }
+      if (err instanceof UpstreamLimitError) {
+        throw new HttpException(err.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+      throw new HttpException(`Subscribe failed: ${err}`, HttpStatus.BAD_GATEWAY);
+    }
+  }
+
+  /**
+   * Report a subscribe that failed after the stream started (it was sent
+   * `pending`) as an `error` event, then end the stream.
+   */
+  private failStream(stream: SseStream, connectionId: string, err: unknown) {
+    const error: ServerErrorMessage = { type: 'error', message: `Subscribe failed: ${err}` };
+    this.clients.send(connectionId, error);
+    stream.close(CLOSE_SUBSCRIBE_FAILED, 'Subscribe failed');
+  }
+
+  /** The query string as a raw subscribe message, or `null` if its JSON is invalid. */
+  private parseQuery(query: Record<string, string | undefined>): Record<string, unknown> | null {
+    const number = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+    try {
+      return {
+        action: 'subscribe',
+        method: query.method,
+        params: query.params === undefined ? [] : JSON.parse(query.params),
+        filter: query.filter === undefined ? undefined : JSON.parse(query.filter),
+        fields: query.fields === undefined ? undefined : query.fields.split(','),
+        throttleMs: number(query.throttleMs),
+        maxRatePerSec: number(query.maxRatePerSec),
+        trailing: query.trailing === 'true' ? true : query.trailing === 'false' ? false : query.trailing,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
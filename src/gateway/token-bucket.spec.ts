@@ -0,0 +1,52 @@
+import { TokenBucket } from './token-bucket';
+
+describe('TokenBucket', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const takeAll = (bucket: TokenBucket) => {
+    let taken = 0;
+    while (bucket.take()) taken++;
+    return taken;
+  };
+
+  it('starts full and refuses once empty', () => {
+    const bucket = new TokenBucket(5, 1000);
+
+    expect(takeAll(bucket)).toBe(5);
+    expect(bucket.take()).toBe(false);
+  });
+
+  it('refills continuously at capacity per interval', () => {
+    const bucket = new TokenBucket(5, 1000);
+    takeAll(bucket);
+
+    jest.advanceTimersByTime(199);
+    expect(bucket.take()).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(bucket.take()).toBe(true);
+    expect(bucket.take()).toBe(false);
+
+    jest.advanceTimersByTime(600);
+    expect(takeAll(bucket)).toBe(3);
+  });
+
+  it('never holds more than its capacity', () => {
+    const bucket = new TokenBucket(5, 1000);
+    takeAll(bucket);
+
+    jest.advanceTimersByTime(60_000);
+
+    expect(takeAll(bucket)).toBe(5);
+  });
+
+  it('reports how long until the next token', () => {
+    const bucket = new TokenBucket(4, 1000);
+    expect(bucket.retryAfterMs).toBe(0);
+    takeAll(bucket);
+
+    expect(bucket.retryAfterMs).toBe(250);
+    jest.advanceTimersByTime(100);
+    expect(bucket.retryAfterMs).toBe(150);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills
+ * continuously at `capacity` tokens per `intervalMs`.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly capacity: number,
+    intervalMs: number,
+  ) {
+    this.tokens = capacity;
+    this.refillPerMs = capacity / intervalMs;
+  }
+
+  /** Take one token. Returns `false` if the bucket is empty. */
+  take(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /** Milliseconds until the next token is available. */
+  get retryAfterMs(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
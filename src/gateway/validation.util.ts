@@ -1,27 +1,39 @@
+import { MethodRegistry } from '../subscriptions/method-registry.service';
+import { validateFields, validateFilter } from '../subscriptions/notification-filter';
+import { validateThrottle } from '../subscriptions/notification-throttle';
 import { ClientMessage } from './client-message.types';
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcErrorResponse,
+  JsonRpcId,
+  JsonRpcRequest,
+} from './json-rpc.types';
 
-const VALID_METHODS = new Set([
-  'accountSubscribe',
-  'programSubscribe',
-  'logsSubscribe',
-  'slotSubscribe',
-  'signatureSubscribe',
-  'rootSubscribe',
-]);
-
-export function validateClientMessage(raw: unknown): ClientMessage | null {
+export function validateClientMessage(
+  raw: unknown,
+  methods: MethodRegistry,
+): ClientMessage | null {
   if (!raw || typeof raw !== 'object') return null;
   const msg = raw as Record<string, unknown>;
 
   if (msg.action === 'subscribe') {
     if (typeof msg.method !== 'string') return null;
-    if (!VALID_METHODS.has(msg.method)) return null;
+    const def = methods.get(msg.method);
+    if (!def) return null;
     const params = msg.params;
     if (params !== undefined && !Array.isArray(params)) return null;
+    if (!def.validateParams((params as unknown[]) ?? [])) return null;
+    const filter = msg.filter === undefined ? undefined : validateFilter(msg.filter, msg.method);
+    const fields = msg.fields === undefined ? undefined : validateFields(msg.fields);
+    const throttle = validateThrottle(msg);
+    if (filter === null || fields === null || throttle === null) return null;
     return {
       action: 'subscribe',
       method: msg.method,
       params: (params as unknown[]) ?? [],
+      filter,
+      fields,
+      throttle,
     };
   }
 
@@ -30,5 +42,73 @@ export function validateClientMessage(raw: unknown): ClientMessage | null {
     return { action: 'unsubscribe', subscriptionId: msg.subscriptionId };
   }
 
+  if (msg.action === 'resume') {
+    if (typeof msg.resumeToken !== 'string') return null;
+    return { action: 'resume', resumeToken: msg.resumeToken };
+  }
+
+  if (msg.action === 'auth') {
+    if (typeof msg.token !== 'string') return null;
+    return { action: 'auth', token: msg.token };
+  }
+
   return null;
 }
+
+/** Whether a parsed message uses the JSON-RPC 2.0 envelope rather than the proxy's `action` envelope. */
+export function isJsonRpcMessage(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && (raw as Record<string, unknown>).jsonrpc === '2.0';
+}
+
+/**
+ * Validate a JSON-RPC 2.0 pubsub request.
+ *
+ * Accepts `*Subscribe` requests for the enabled methods in the registry and
+ * the matching `*Unsubscribe` requests, whose only param must be a numeric
+ * subscription ID.
+ *
+ * @returns The validated request, or the error response to send back.
+ */
+export function validateJsonRpcRequest(
+  msg: Record<string, unknown>,
+  methods: MethodRegistry,
+): JsonRpcRequest | JsonRpcErrorResponse {
+  const id: JsonRpcId =
+    typeof msg.id === 'number' || typeof msg.id === 'string' ? msg.id : null;
+
+  if (typeof msg.method !== 'string') {
+    return rpcError(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request');
+  }
+  if (msg.params !== undefined && !Array.isArray(msg.params)) {
+    return rpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params');
+  }
+  const params = (msg.params as unknown[]) ?? [];
+
+  const def = methods.get(msg.method);
+  if (def) {
+    if (!def.validateParams(params)) {
+      return rpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params');
+    }
+    return { jsonrpc: '2.0', id, method: msg.method, params, unsubscribe: false };
+  }
+
+  if (methods.getByUnsubscribe(msg.method)) {
+    if (params.length !== 1 || typeof params[0] !== 'number') {
+      return rpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid subscription id.');
+    }
+    return { jsonrpc: '2.0', id, method: msg.method, params, unsubscribe: true };
+  }
+
+  return rpcError(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, 'Method not found');
+}
+
+export function rpcError(
+  id: JsonRpcId,
+  code: number,
+  message: string,
+  data?: unknown,
+): JsonRpcErrorResponse {
+  const res: JsonRpcErrorResponse = { jsonrpc: '2.0', id, error: { code, message } };
+  if (data !== undefined) res.error.data = data;
+  return res;
+}
@@ -3,17 +3,63 @@ import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { IncomingMessage } from 'http';
 import WebSocket from 'ws';
-import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import {
+  PendingSubscribeError,
+  SubscriptionsService,
+  UpstreamLimitError,
+} from '../subscriptions/subscriptions.service';
 import { ClientConnectionService } from '../subscriptions/client-connection.service';
-import { validateClientMessage } from './validation.util';
-import { ServerErrorMessage } from './client-message.types';
+import { ClientProtocol } from '../subscriptions/subscriptions.types';
+import { MethodRegistry } from '../subscriptions/method-registry.service';
+import { UpstreamService } from '../upstream/upstream.service';
+import { decodeFrame, FrameEncoding, negotiateEncoding } from '../subscriptions/frame-encoding';
+import { ANONYMOUS_POLICY, AuthService } from '../auth/auth.service';
+import { ClientPolicy } from '../auth/auth.types';
+import { CLOSE_SERVICE_RESTART, DrainService } from '../drain/drain.service';
+import {
+  isJsonRpcMessage,
+  rpcError,
+  validateClientMessage,
+  validateJsonRpcRequest,
+} from './validation.util';
+import {
+  ServerErrorMessage,
+  ServerResumedMessage,
+  ServerSessionMessage,
+  ServerSubscriptionFailedMessage,
+} from './client-message.types';
+import { JSON_RPC_ERRORS, JsonRpcId, JsonRpcSuccessResponse } from './json-rpc.types';
+import { RateLimitExceeded, RateLimiterService } from './rate-limiter.service';
+import { parseAllowedOrigins } from './allowed-origins.util';
+import { remoteAddress } from './remote-address.util';
+
+/** Close code for sockets that fail or skip authentication */
+const CLOSE_UNAUTHORIZED = 4001;
+/** Close code for sockets over the per-address limit or repeatedly rate limited */
+const CLOSE_POLICY_VIOLATION = 1008;
+/** Close code for sockets asking for a Solana network the proxy doesn't serve */
+const CLOSE_UNKNOWN_NETWORK = 4004;
 
 /**
  * WebSocket gateway that accepts client connections on `/ws`.
  *
- * Each connecting client is assigned a UUID. Incoming messages are validated
- * and dispatched to {@link SubscriptionsService} for subscribe/unsubscribe
- * handling. Disconnections trigger subscription cleanup via the same service.
+ * A client picks the Solana network its subscriptions are for with
+ * `/ws/<network>` (rewritten by {@link ClientWsAdapter}) or `?network=`,
+ * and gets the default network otherwise; unknown networks are closed with
+ * code 4004.
+ *
+ * Each connecting client is assigned a UUID. When authentication is enabled
+ * the client must present an API key or token — in the upgrade request or
+ * as its first message — before anything else; its policy then limits the
+ * methods and number of subscriptions it may use. Message rate, subscribe rate and connections per
+ * remote address are limited by {@link RateLimiterService}. Incoming messages are validated and dispatched to
+ * {@link SubscriptionsService} for subscribe/unsubscribe/resume handling.
+ * Messages carrying `jsonrpc: "2.0"` are treated as standard Solana pubsub
+ * requests and answered with JSON-RPC responses, so stock Solana clients
+ * can connect directly. A connection's first request decides which
+ * protocol it speaks: proxy-protocol clients are then sent a resume token,
+ * JSON-RPC clients get nothing outside JSON-RPC.
+ * Disconnections trigger subscription cleanup via the same service.
  */
 @WebSocketGateway({
   path: '/ws'
@@ -21,19 +67,36 @@ import { ServerErrorMessage } from './client-message.types';
 export class WsProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
   private readonly logger = new Logger(WsProxyGateway.name);
   private readonly allowedOrigins: string[];
+  private readonly clientIpHeader: string;
+  /** connectionId → timer closing sockets that never authenticate */
+  private readonly authTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
   constructor(
     private readonly subscriptions: SubscriptionsService,
     private readonly clients: ClientConnectionService,
+    private readonly methods: MethodRegistry,
+    private readonly upstream: UpstreamService,
+    private readonly auth: AuthService,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly drain: DrainService,
     config: ConfigService,
   ) {
-    this.allowedOrigins = config.get<string>('ALLOWED_ORIGINS', 'http://localhost:3000')
-      .split(',')
-      .map((o) => o.trim().replace(/\/+$/, ''));
+    this.clientIpHeader = config.get<string>('CLIENT_IP_HEADER', '').toLowerCase();
+    this.allowedOrigins = parseAllowedOrigins(config.get<string>('ALLOWED_ORIGINS', 'http://localhost:3000'));
   }
 
-  /** Validate origin, register the socket, and wire up the message handler. */
+  /**
+   * Validate origin, register the socket, and wire up the message handler.
+   * While the instance is draining, new sockets are closed with 1012.
+   * Authenticates from the upgrade request if it carries a credential,
+   * otherwise waits up to `AUTH_TIMEOUT_MS` for an `auth` message.
+   */
   handleConnection(client: WebSocket, req: IncomingMessage) {
+    if (this.drain.draining) {
+      client.close(CLOSE_SERVICE_RESTART, 'Server draining');
+      return;
+    }
+
     const origin = req.headers.origin ?? '';
     if (!this.allowedOrigins.includes(origin)) {
       this.logger.warn(`Rejected connection from origin: ${origin}`);
@@ -41,62 +104,155 @@ export class WsProxyGateway implements OnGatewayConnection, OnGatewayDisconnect
       return;
     }
 
-    const connectionId = this.clients.register(client);
-    this.logger.log(`Client connected: ${connectionId}`);
+    const requested = new URL(req.url ?? '/', 'http://localhost').searchParams.get('network');
+    const network = this.upstream.resolveNetwork(requested);
+    if (!network) {
+      client.close(CLOSE_UNKNOWN_NETWORK, 'Unknown network');
+      return;
+    }
+
+    const address = remoteAddress(req, this.clientIpHeader);
+    const connectionId = this.clients.register(client, {
+      transport: 'ws',
+      network,
+      encoding: negotiateEncoding(client.protocol, req.url),
+      remoteAddress: address,
+      origin,
+    });
+
+    if (this.rateLimiter.openConnection(connectionId, address)) {
+      this.logger.warn(`Rejected connection from ${address}: too many connections`);
+      client.close(CLOSE_POLICY_VIOLATION, 'Too many connections');
+      return;
+    }
 
-    client.on('message', (data: WebSocket.Data) => {
-      this.handleRawMessage(client, data);
+    client.on('message', (data: WebSocket.Data, isBinary: boolean) => {
+      this.handleRawMessage(client, data, isBinary);
     });
+
+    if (!this.auth.enabled) {
+      this.accept(connectionId, ANONYMOUS_POLICY);
+      return;
+    }
+
+    const credential = this.auth.extractCredential(req);
+    if (credential) {
+      this.authenticate(client, connectionId, credential);
+      return;
+    }
+
+    this.authTimers.set(
+      connectionId,
+      setTimeout(() => this.reject(client, connectionId, 'Authentication timeout'), this.auth.timeoutMs),
+    );
   }
 
   /** Unregister the socket and notify SubscriptionsService of the disconnect. */
   handleDisconnect(client: WebSocket) {
     const connectionId = this.clients.getId(client);
     if (!connectionId) return;
+    this.clearAuthTimer(connectionId);
+    this.rateLimiter.closeConnection(connectionId);
     this.clients.remove(connectionId);
     this.subscriptions.handleDisconnect(connectionId);
     this.logger.log(`Client disconnected: ${connectionId}`);
   }
 
-  /** Parse, validate, and route an incoming client message to the appropriate action. */
-  private async handleRawMessage(client: WebSocket, data: WebSocket.Data) {
+  /**
+   * Rate-limit, parse, validate, and route an incoming client message to
+   * the appropriate action. Every frame counts against the message limit,
+   * including ones that fail to decode.
+   */
+  private async handleRawMessage(client: WebSocket, data: WebSocket.Data, isBinary: boolean) {
     const connectionId = this.clients.getId(client);
     if (!connectionId) return;
+    this.clients.recordReceived(connectionId);
+    const encoding = this.clients.getEncoding(connectionId);
+
+    const exceeded = this.rateLimiter.consumeMessage(connectionId);
+    if (exceeded) {
+      const rpcId = exceeded.disconnect ? undefined : this.rpcIdOf(encoding, data, isBinary);
+      this.sendRateLimited(client, connectionId, exceeded, rpcId);
+      return;
+    }
 
     let parsed: unknown;
     try {
-      parsed = JSON.parse(data.toString());
+      parsed = decodeFrame(encoding, data, isBinary);
     } catch {
-      this.sendError(connectionId, 'Invalid JSON');
+      this.sendError(connectionId, encoding === 'msgpack' && isBinary ? 'Invalid MessagePack' : 'Invalid JSON');
+      return;
+    }
+
+    if (!this.clients.getPolicy(connectionId)) {
+      const auth = validateClientMessage(parsed, this.methods);
+      if (auth?.action === 'auth') {
+        this.authenticate(client, connectionId, auth.token);
+        if (this.clients.getPolicy(connectionId)) this.identifyProtocol(connectionId, 'proxy');
+      } else {
+        this.reject(client, connectionId, 'Authentication required');
+      }
+      return;
+    }
+
+    if (isJsonRpcMessage(parsed)) {
+      this.identifyProtocol(connectionId, 'json-rpc');
+      await this.handleJsonRpcMessage(client, connectionId, parsed);
       return;
     }
+    this.identifyProtocol(connectionId, 'proxy');
 
-    const msg = validateClientMessage(parsed);
+    const msg = validateClientMessage(parsed, this.methods);
     if (!msg) {
       this.sendError(connectionId, 'Invalid message format');
       return;
     }
 
     if (msg.action === 'subscribe') {
+      const denied = this.checkPolicy(connectionId, msg.method);
+      if (denied) {
+        this.sendError(connectionId, denied);
+        return;
+      }
+      const exceeded = this.rateLimiter.consumeSubscribe(connectionId);
+      if (exceeded) {
+        this.sendRateLimited(client, connectionId, exceeded);
+        return;
+      }
       try {
-        const subId = await this.subscriptions.subscribe(
+        const sub = await this.subscriptions.subscribe(
           connectionId,
+          this.clients.getNetwork(connectionId)!,
           msg.method,
           msg.params ?? [],
+          false,
+          { filter: msg.filter, fields: msg.fields, throttle: msg.throttle },
         );
         this.clients.send(connectionId, {
           type: 'subscribed',
-          subscriptionId: subId,
+          subscriptionId: sub.proxySubId,
           method: msg.method,
         });
+        this.subscriptions.sendSnapshot(sub);
       } catch (err) {
-        this.sendError(connectionId, `Subscribe failed: ${err}`);
+        if (err instanceof UpstreamLimitError) {
+          this.sendError(connectionId, err.message, 'upstream_limit');
+        } else if (err instanceof PendingSubscribeError) {
+          const failed: ServerSubscriptionFailedMessage = {
+            type: 'subscription_failed',
+            subscriptionId: err.subscriptionId,
+            reason: err.message,
+          };
+          this.clients.send(connectionId, failed);
+        } else {
+          this.sendError(connectionId, `Subscribe failed: ${err}`);
+        }
       }
       return;
     }
 
     if (msg.action === 'unsubscribe') {
-      const ok = this.subscriptions.unsubscribe(connectionId);
+      const ok = this.subscriptions.unsubscribe(connectionId, msg.subscriptionId);
       if (ok) {
         this.clients.send(connectionId, {
           type: 'unsubscribed',
@@ -105,11 +261,215 @@ export class WsProxyGateway implements OnGatewayConnection, OnGatewayDisconnect
       } else {
         this.sendError(connectionId, 'Unknown subscription');
       }
+      return;
+    }
+
+    if (msg.action === 'resume') {
+      const resumed = this.subscriptions.resume(connectionId, msg.resumeToken);
+      if (!resumed) {
+        this.sendError(connectionId, 'Unknown or expired resume token');
+        return;
+      }
+      const reply: ServerResumedMessage = {
+        type: 'resumed',
+        subscriptions: resumed.map((sub) => ({
+          subscriptionId: sub.proxySubId,
+          method: sub.method,
+        })),
+      };
+      this.clients.send(connectionId, reply);
+      for (const sub of resumed) {
+        this.subscriptions.replayBuffered(sub);
+      }
+      return;
+    }
+
+    if (msg.action === 'auth') {
+      this.sendError(connectionId, 'Already authenticated');
+    }
+  }
+
+  /** Validate and route a JSON-RPC 2.0 `*Subscribe` / `*Unsubscribe` request. */
+  private async handleJsonRpcMessage(
+    client: WebSocket,
+    connectionId: string,
+    raw: Record<string, unknown>,
+  ) {
+    const req = validateJsonRpcRequest(raw, this.methods);
+    if ('error' in req) {
+      this.clients.send(connectionId, req);
+      return;
+    }
+
+    if (req.unsubscribe) {
+      const proxySubId = this.subscriptions.resolveRpcSubscription(
+        connectionId,
+        req.method,
+        req.params[0] as number,
+      );
+      if (proxySubId && this.subscriptions.unsubscribe(connectionId, proxySubId)) {
+        this.sendResult(connectionId, req.id, true);
+      } else {
+        this.clients.send(
+          connectionId,
+          rpcError(req.id, JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid subscription id.'),
+        );
+      }
+      return;
+    }
+
+    const denied = this.checkPolicy(connectionId, req.method);
+    if (denied) {
+      this.clients.send(connectionId, rpcError(req.id, JSON_RPC_ERRORS.FORBIDDEN, denied));
+      return;
+    }
+    const exceeded = this.rateLimiter.consumeSubscribe(connectionId);
+    if (exceeded) {
+      this.sendRateLimited(client, connectionId, exceeded, req.id);
+      return;
+    }
+
+    try {
+      const sub = await this.subscriptions.subscribe(
+        connectionId,
+        this.clients.getNetwork(connectionId)!,
+        req.method,
+        req.params,
+        true,
+      );
+      this.sendResult(connectionId, req.id, sub.rpcSubId);
+    } catch (err) {
+      this.clients.send(
+        connectionId,
+        err instanceof UpstreamLimitError
+          ? rpcError(req.id, JSON_RPC_ERRORS.RATE_LIMITED, err.message)
+          : rpcError(req.id, JSON_RPC_ERRORS.INTERNAL_ERROR, `Subscribe failed: ${err}`),
+      );
+    }
+  }
+
+  /** Check a credential and either accept the connection or close it as unauthorized. */
+  private authenticate(client: WebSocket, connectionId: string, credential: string) {
+    const policy = this.auth.authenticate(credential);
+    if (!policy) {
+      this.reject(client, connectionId, 'Invalid credentials');
+      return;
+    }
+    this.accept(connectionId, policy);
+  }
+
+  /** Record the connection's policy. */
+  private accept(connectionId: string, policy: ClientPolicy) {
+    this.clearAuthTimer(connectionId);
+    this.clients.setPolicy(connectionId, policy);
+    this.logger.log(`Client connected: ${connectionId} (${policy.label})`);
+  }
+
+  /**
+   * Record the protocol of a connection's first request and, if it is the
+   * proxy protocol, issue the connection's resume token. JSON-RPC clients
+   * can't resume and would choke on the `session` frame.
+   */
+  private identifyProtocol(connectionId: string, protocol: ClientProtocol) {
+    if (!this.clients.setProtocol(connectionId, protocol) || protocol !== 'proxy') return;
+    const session: ServerSessionMessage = {
+      type: 'session',
+      resumeToken: this.subscriptions.openSession(connectionId),
+    };
+    this.clients.send(connectionId, session);
+  }
+
+  private reject(client: WebSocket, connectionId: string, reason: string) {
+    this.clearAuthTimer(connectionId);
+    this.logger.warn(`Rejected unauthenticated client ${connectionId}: ${reason}`);
+    client.close(CLOSE_UNAUTHORIZED, reason);
+  }
+
+  private clearAuthTimer(connectionId: string) {
+    const timer = this.authTimers.get(connectionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.authTimers.delete(connectionId);
+    }
+  }
+
+  /**
+   * Check a subscribe request against the connection's policy.
+   *
+   * @returns An error message if the policy forbids it, otherwise `null`.
+   */
+  private checkPolicy(connectionId: string, method: string): string | null {
+    const policy = this.clients.getPolicy(connectionId);
+    if (!policy) return 'Not authenticated';
+    if (policy.allowedMethods && !policy.allowedMethods.includes(method)) {
+      return `Method not allowed: ${method}`;
+    }
+    if (
+      policy.maxSubscriptions != null &&
+      this.subscriptions.subscriptionCount(connectionId) >= policy.maxSubscriptions
+    ) {
+      return `Subscription limit reached (${policy.maxSubscriptions})`;
     }
+    return null;
+  }
+
+  /**
+   * The `id` of a rate-limited frame if it is a JSON-RPC request, so the
+   * rejection can be sent as its reply; `undefined` otherwise.
+   */
+  private rpcIdOf(encoding: FrameEncoding, data: WebSocket.Data, isBinary: boolean): JsonRpcId | undefined {
+    try {
+      const parsed = decodeFrame(encoding, data, isBinary);
+      return isJsonRpcMessage(parsed) ? ((parsed.id as JsonRpcId) ?? null) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reply to a rate-limited request with a structured error, or close the
+   * socket if the client has exceeded its limits too often.
+   *
+   * @param rpcId - Request ID when the client used the JSON-RPC envelope.
+   */
+  private sendRateLimited(
+    client: WebSocket,
+    connectionId: string,
+    exceeded: RateLimitExceeded,
+    rpcId?: JsonRpcId,
+  ) {
+    if (exceeded.disconnect) {
+      this.logger.warn(`Disconnecting ${connectionId}: repeatedly exceeded rate limits`);
+      client.close(CLOSE_POLICY_VIOLATION, 'Rate limit exceeded');
+      return;
+    }
+    const message = `Rate limit exceeded: ${exceeded.limit}`;
+    if (rpcId !== undefined) {
+      this.clients.send(
+        connectionId,
+        rpcError(rpcId, JSON_RPC_ERRORS.RATE_LIMITED, message, {
+          retryAfterMs: exceeded.retryAfterMs,
+        }),
+      );
+      return;
+    }
+    const err: ServerErrorMessage = {
+      type: 'error',
+      code: 'rate_limited',
+      message,
+      retryAfterMs: exceeded.retryAfterMs,
+    };
+    this.clients.send(connectionId, err);
+  }
+
+  private sendResult(connectionId: string, id: JsonRpcId, result: unknown) {
+    const res: JsonRpcSuccessResponse = { jsonrpc: '2.0', id, result };
+    this.clients.send(connectionId, res);
   }
 
-  private sendError(connectionId: string, message: string) {
+  private sendError(connectionId: string, message: string, code?: string) {
     const err: ServerErrorMessage = { type: 'error', message };
+    if (code) err.code = code;
     this.clients.send(connectionId, err);
   }
 }
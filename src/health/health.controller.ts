@@ -1,7 +1,9 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
 import { UpstreamService } from '../upstream/upstream.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { ClientConnectionService } from '../subscriptions/client-connection.service';
+import { ClusterService } from '../cluster/cluster.service';
+import { DrainService } from '../drain/drain.service';
 
 /** Simple health-check endpoint at `GET /health`. */
 @Controller('health')
@@ -10,16 +12,47 @@ export class HealthController {
     private readonly upstream: UpstreamService,
     private readonly subscriptions: SubscriptionsService,
     private readonly clients: ClientConnectionService,
+    private readonly cluster: ClusterService,
+    private readonly drain: DrainService,
   ) {}
 
-  /** Return upstream connection status, client count, and subscription stats. */
+  /**
+   * Return upstream pool status, client count, and subscription stats,
+   * overall and per Solana network.
+   * Responds 503 with `status: "draining"` once the instance is draining,
+   * so load balancers stop routing to it.
+   */
   @Get()
   check() {
-    return {
-      status: 'ok',
+    const body = {
+      status: this.drain.draining ? 'draining' : 'ok',
       upstreamConnected: this.upstream.isConnected,
+      upstreamEndpoint: this.upstream.activeEndpoint,
+      upstreamEndpoints: this.upstream.endpointStatus,
+      upstreamConnections: this.upstream.status,
+      queuedUpstreamRequests: this.upstream.queuedRequests,
       connectedClients: this.clients.size,
       ...this.subscriptions.stats,
+      networks: this.networkStatus(),
+      resubscribing: this.subscriptions.resubscribeStatus,
+      cluster: this.cluster.status,
+      drain: this.drain.status,
     };
+    if (this.drain.draining) throw new ServiceUnavailableException(body);
+    return body;
+  }
+
+  /** Upstream, client and subscription stats of each Solana network served. */
+  private networkStatus() {
+    return Object.fromEntries(
+      this.upstream.networks.map((name) => [
+        name,
+        {
+          ...this.upstream.networkStatus(name),
+          connectedClients: this.clients.countOnNetwork(name),
+          ...this.subscriptions.networkStats(name),
+        },
+      ]),
+    );
   }
 }
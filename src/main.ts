@@ -1,18 +1,19 @@
 import { NestFactory } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
-import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module';
 import { EnvConfig } from './config/env.config';
+import { DrainService } from './drain/drain.service';
+import { parseAllowedOrigins } from './gateway/allowed-origins.util';
+import { ClientWsAdapter } from './gateway/client-ws.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
-  app.useWebSocketAdapter(new WsAdapter(app));
 
   const config = app.get(ConfigService<EnvConfig, true>);
+  app.useWebSocketAdapter(new ClientWsAdapter(app, config));
 
-  const allowedOrigins = config.get('ALLOWED_ORIGINS').split(',').map((o: string) => o.trim().replace(/\/+$/, ''));
   app.enableCors({
-    origin: allowedOrigins,
+    origin: parseAllowedOrigins(config.get('ALLOWED_ORIGINS')),
     credentials: true,
   });
 
@@ -21,8 +22,10 @@ async function bootstrap() {
   console.log(`Helius WS proxy listening on :${port}`);
 
   for (const sig of ['SIGINT', 'SIGTERM'] as const) {
-    process.on(sig, async () => {
-      console.log(`${sig} received, shutting down…`);
+    process.once(sig, async () => {
+      console.log(`${sig} received, draining…`);
+      await app.get(DrainService).drain();
+      console.log('Shutting down…');
       await app.close();
       process.exit(0);
     });
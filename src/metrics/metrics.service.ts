@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+
+/**
+ * Owns the Prometheus registry and every metric the proxy exports.
+ *
+ * Services record into the public metric fields directly; the registry is
+ * rendered in Prometheus text format by {@link MetricsController}.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  /** Upstream notifications received, by notification method */
+  readonly notifications = new Counter({
+    name: 'helius_proxy_notifications_total',
+    help: 'Upstream subscription notifications received',
+    labelNames: ['method'],
+    registers: [this.registry],
+  });
+
+  /** Time spent fanning one upstream notification out to its subscribers */
+  readonly fanoutDuration = new Histogram({
+    name: 'helius_proxy_notification_fanout_seconds',
+    help: 'Time to dispatch one upstream notification to all subscribers',
+    labelNames: ['method'],
+    buckets: [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1],
+    registers: [this.registry],
+  });
+
+  /** Frames written to client sockets */
+  readonly clientMessagesSent = new Counter({
+    name: 'helius_proxy_client_messages_sent_total',
+    help: 'Messages sent to client sockets',
+    registers: [this.registry],
+  });
+
+  /** Frames that could not be written to a client socket */
+  readonly clientMessagesDropped = new Counter({
+    name: 'helius_proxy_client_messages_dropped_total',
+    help: 'Messages dropped instead of being sent to a client socket',
+    labelNames: ['reason'],
+    registers: [this.registry],
+  });
+
+  /** Snapshot lookups for new subscriptions, by result (`hit`, `miss`, `filtered`) */
+  readonly snapshotLookups = new Counter({
+    name: 'helius_proxy_snapshot_lookups_total',
+    help: 'Last-value cache lookups made for new subscriptions',
+    labelNames: ['result'],
+    registers: [this.registry],
+  });
+
+  /** Upstream JSON-RPC round-trip time */
+  readonly upstreamRequestDuration = new Histogram({
+    name: 'helius_proxy_upstream_request_duration_seconds',
+    help: 'Round-trip time of JSON-RPC requests to the upstream',
+    labelNames: ['method', 'outcome'],
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  /** Upstream JSON-RPC requests awaiting a response */
+  readonly upstreamPendingRequests = new Gauge({
+    name: 'helius_proxy_upstream_pending_requests',
+    help: 'Upstream JSON-RPC requests awaiting a response',
+    labelNames: ['connection'],
+    registers: [this.registry],
+  });
+
+  /** Upstream requests held while their connection is down */
+  readonly upstreamQueuedRequests = new Gauge({
+    name: 'helius_proxy_upstream_queued_requests',
+    help: 'Upstream JSON-RPC requests waiting for their connection to reconnect',
+    labelNames: ['connection'],
+    registers: [this.registry],
+  });
+
+  /** Subscriptions a re-subscribe pass still has to send after a reconnect */
+  readonly resubscribeRemaining = new Gauge({
+    name: 'helius_proxy_resubscribe_remaining',
+    help: 'Upstream subscriptions waiting to be re-sent after a reconnect',
+    labelNames: ['connection'],
+    registers: [this.registry],
+  });
+
+  /** Re-subscribe attempts made by re-subscribe passes */
+  readonly resubscribes = new Counter({
+    name: 'helius_proxy_resubscribes_total',
+    help: 'Re-subscribe attempts after upstream reconnects',
+    labelNames: ['outcome'],
+    registers: [this.registry],
+  });
+
+  /** Upstream JSON-RPC requests that timed out */
+  readonly upstreamTimeouts = new Counter({
+    name: 'helius_proxy_upstream_request_timeouts_total',
+    help: 'Upstream JSON-RPC requests that received no response in time',
+    labelNames: ['method'],
+    registers: [this.registry],
+  });
+
+  /** Upstream reconnect attempts scheduled */
+  readonly upstreamReconnects = new Counter({
+    name: 'helius_proxy_upstream_reconnects_total',
+    help: 'Upstream reconnect attempts',
+    labelNames: ['connection'],
+    registers: [this.registry],
+  });
+
+  /** Switches of the pool to another upstream endpoint */
+  readonly upstreamEndpointSwitches = new Counter({
+    name: 'helius_proxy_upstream_endpoint_switches_total',
+    help: 'Switches of the upstream pool to another endpoint',
+    labelNames: ['endpoint'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: 'helius_proxy_' });
+  }
+}
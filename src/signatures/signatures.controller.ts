@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { ClientAuthGuard, requestPolicy } from '../auth/client-auth.guard';
+import { RateLimiterService } from '../gateway/rate-limiter.service';
+import { remoteAddress } from '../gateway/remote-address.util';
+import { MethodRegistry } from '../subscriptions/method-registry.service';
+import {
+  SubscriptionsService,
+  UpstreamLimitError,
+} from '../subscriptions/subscriptions.service';
+import { UpstreamService } from '../upstream/upstream.service';
+
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+const COMMITMENTS = ['processed', 'confirmed', 'finalized'];
+
+/**
+ * HTTP long-poll for transaction confirmations, for backends that don't
+ * hold a WebSocket. Authenticated and limited like WebSocket clients: each
+ * waiting request holds one of its address's `MAX_CONNECTIONS_PER_IP`
+ * slots, and a key's concurrent waits count against its `maxSubscriptions`.
+ */
+@Controller('signatures')
+@UseGuards(ClientAuthGuard)
+export class SignaturesController {
+  private readonly maxTimeoutMs: number;
+  private readonly clientIpHeader: string;
+  /** policy label → requests of that key currently waiting */
+  private readonly waiting = new Map<string, number>();
+
+  constructor(
+    private readonly subscriptions: SubscriptionsService,
+    private readonly methods: MethodRegistry,
+    private readonly upstream: UpstreamService,
+    private readonly rateLimiter: RateLimiterService,
+    config: ConfigService,
+  ) {
+    this.maxTimeoutMs = config.get<number>('SIGNATURE_WAIT_MAX_TIMEOUT_MS', 60000);
+    this.clientIpHeader = config.get<string>('CLIENT_IP_HEADER', '').toLowerCase();
+  }
+
+  /**
+   * `POST /signatures/:signature/wait?commitment=confirmed&timeoutMs=30000`
+   *
+   * `network` picks a Solana network other than the default.
+   *
+   * Subscribes to the signature upstream — sharing the subscription with
+   * every other waiter and WebSocket client on the same signature and
+   * commitment — and holds the request until Helius reports it or the
+   * timeout passes. Waiting stops early if the caller disconnects.
+   * Answers `429` when the caller's address or key has too many waits open.
+   *
+   * @returns `{ signature, status: "confirmed", result }` with the
+   *          `signatureNotification` result (`value.err` is set if the
+   *          transaction failed), or `{ signature, status: "timeout" }`.
+   */
+  @Post(':signature/wait')
+  @HttpCode(200)
+  async wait(
+    @Param('signature') signature: string,
+    @Query('commitment') commitment: string | undefined,
+    @Query('timeoutMs') timeoutMsParam: string | undefined,
+    @Query('network') networkParam: string | undefined,
+    @Req() req: IncomingMessage,
+    @Res({ passthrough: true }) res: ServerResponse,
+  ) {
+    if (!SIGNATURE_PATTERN.test(signature)) {
+      throw new BadRequestException('Invalid signature');
+    }
+    if (commitment !== undefined && !COMMITMENTS.includes(commitment)) {
+      throw new BadRequestException(`commitment must be one of ${COMMITMENTS.join(', ')}`);
+    }
+    const timeoutMs = timeoutMsParam === undefined ? this.maxTimeoutMs : Number(timeoutMsParam);
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0 || timeoutMs > this.maxTimeoutMs) {
+      throw new BadRequestException(`timeoutMs must be between 1 and ${this.maxTimeoutMs}`);
+    }
+
+    const network = this.upstream.resolveNetwork(networkParam);
+    if (!network) throw new NotFoundException(`Unknown network: ${networkParam}`);
+
+    const method = 'signatureSubscribe';
+    if (!this.methods.get(method)) throw new NotFoundException(`${method} is disabled`);
+    const policy = requestPolicy(req);
+    if (policy.allowedMethods && !policy.allowedMethods.includes(method)) {
+      throw new ForbiddenException(`Method not allowed: ${method}`);
+    }
+    const waiting = this.waiting.get(policy.label) ?? 0;
+    if (policy.maxSubscriptions != null && waiting >= policy.maxSubscriptions) {
+      throw new HttpException(
+        `Subscription limit reached (${policy.maxSubscriptions})`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    const waiterId = randomUUID();
+    if (this.rateLimiter.openConnection(waiterId, remoteAddress(req, this.clientIpHeader))) {
+      throw new HttpException('Too many connections', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    this.waiting.set(policy.label, waiting + 1);
+
+    const aborted = new AbortController();
+    res.on('close', () => aborted.abort());
+
+    let result: unknown;
+    try {
+      result = await this.subscriptions.waitForNotification(
+        network,
+        method,
+        [signature, { commitment: commitment ?? 'finalized' }],
+        timeoutMs,
+        aborted.signal,
+      );
+    } catch (err) {
+      if (err instanceof UpstreamLimitError) {
+        throw new HttpException(err.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+      throw new HttpException(`Subscribe failed: ${err}`, HttpStatus.BAD_GATEWAY);
+    } finally {
+      this.rateLimiter.closeConnection(waiterId);
+      this.release(policy.label);
+    }
+
+    return result === null
+      ? { signature, status: 'timeout' }
+      : { signature, status: 'confirmed', result };
+  }
+
+  /** Count one of a key's waits as finished. */
+  private release(label: string) {
+    const waiting = (this.waiting.get(label) ?? 1) - 1;
+    if (waiting > 0) {
+      this.waiting.set(label, waiting);
+    } else {
+      this.waiting.delete(label);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { GatewayModule } from '../gateway/gateway.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { UpstreamModule } from '../upstream/upstream.module';
+import { SignaturesController } from './signatures.controller';
+
+@Module({
+  imports: [SubscriptionsModule, UpstreamModule, AuthModule, GatewayModule],
+  controllers: [SignaturesController],
+})
+export class SignaturesModule {}
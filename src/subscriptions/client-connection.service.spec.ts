@@ -0,0 +1,143 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsService } from '../metrics/metrics.service';
+import { ClientConnectionService } from './client-connection.service';
+import { ClientSocket } from './subscriptions.types';
+
+/** A client socket whose send buffer stays full until drained */
+class FakeSocket implements ClientSocket {
+  readyState = 1;
+  bufferedAmount = 0;
+  readonly frames: Record<string, unknown>[] = [];
+  closed: number | null = null;
+  private callbacks: ((err?: Error | null) => void)[] = [];
+
+  send(frame: string | Uint8Array, cb?: (err?: Error | null) => void) {
+    this.frames.push(JSON.parse(frame as string));
+    if (cb) this.callbacks.push(cb);
+  }
+
+  close(code?: number) {
+    this.closed = code ?? null;
+    this.readyState = 3;
+  }
+
+  /** Empty the send buffer and run the pending write callbacks */
+  drain() {
+    this.bufferedAmount = 0;
+    const callbacks = this.callbacks;
+    this.callbacks = [];
+    for (const cb of callbacks) cb();
+  }
+
+  ofType(type: string) {
+    return this.frames.filter((f) => f.type === type);
+  }
+}
+
+describe('ClientConnectionService', () => {
+  const notification = (n: number) => ({ jsonrpc: '2.0', method: 'slotNotification', params: { result: n } });
+
+  const setup = (policy: string) => {
+    const clients = new ClientConnectionService(
+      new MetricsService(),
+      new ConfigService({
+        CLIENT_MAX_BUFFERED_BYTES: 100,
+        CLIENT_MAX_QUEUED_MESSAGES: 3,
+        SLOW_CLIENT_POLICY: policy,
+      }),
+    );
+    const ws = new FakeSocket();
+    const id = clients.register(ws, {
+      transport: 'ws',
+      network: 'default',
+      encoding: 'json',
+      remoteAddress: '127.0.0.1',
+      origin: '',
+    });
+    // A frame is in flight and the buffer is over its limit
+    clients.send(id, { type: 'subscribed' });
+    ws.bufferedAmount = 1000;
+    return { clients, ws, id };
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('tells a client about its first dropped notification right away, before the queue drains', () => {
+    const { clients, ws, id } = setup('drop-oldest');
+
+    for (let n = 1; n <= 4; n++) clients.send(id, notification(n), 'sub_1');
+
+    expect(ws.ofType('notifications_dropped')).toEqual([{ type: 'notifications_dropped', count: 1 }]);
+  });
+
+  it('keeps telling a client that never catches up, at most once per second', () => {
+    const { clients, ws, id } = setup('drop-oldest');
+
+    for (let n = 1; n <= 4; n++) clients.send(id, notification(n), 'sub_1');
+    for (let n = 5; n <= 9; n++) clients.send(id, notification(n), 'sub_1');
+    expect(ws.ofType('notifications_dropped')).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(ws.ofType('notifications_dropped')).toEqual([
+      { type: 'notifications_dropped', count: 1 },
+      { type: 'notifications_dropped', count: 5 },
+    ]);
+
+    jest.advanceTimersByTime(5000);
+    expect(ws.ofType('notifications_dropped')).toHaveLength(2);
+  });
+
+  it('reports drops not yet reported once the queue drains', () => {
+    const { clients, ws, id } = setup('conflate');
+
+    clients.send(id, notification(1), 'sub_1');
+    clients.send(id, notification(2), 'sub_1');
+    clients.send(id, notification(3), 'sub_1');
+    ws.drain();
+
+    expect(ws.frames.slice(1)).toEqual([
+      { type: 'notifications_dropped', count: 1 },
+      notification(3),
+      { type: 'notifications_dropped', count: 1 },
+    ]);
+    jest.advanceTimersByTime(5000);
+    expect(ws.ofType('notifications_dropped')).toHaveLength(2);
+  });
+
+  it('sends a JSON-RPC client no drop notices, and keeps its first protocol', () => {
+    const { clients, ws, id } = setup('drop-oldest');
+    expect(clients.setProtocol(id, 'json-rpc')).toBe(true);
+    expect(clients.setProtocol(id, 'proxy')).toBe(false);
+
+    for (let n = 1; n <= 4; n++) clients.send(id, notification(n), 'sub_1');
+    ws.drain();
+    jest.advanceTimersByTime(5000);
+
+    expect(clients.isJsonRpc(id)).toBe(true);
+    expect(ws.ofType('notifications_dropped')).toEqual([]);
+  });
+
+  it.each(['drop-oldest', 'conflate'])(
+    'disconnects a client whose full %s queue holds nothing droppable',
+    (policy) => {
+      const { clients, ws, id } = setup(policy);
+
+      for (let i = 0; i < 3; i++) clients.send(id, { type: 'pong' });
+      expect(ws.closed).toBeNull();
+      clients.send(id, { type: 'pong' });
+
+      expect(ws.closed).toBe(4008);
+    },
+  );
+
+  it('disconnects a slow client under the disconnect policy', () => {
+    const { clients, ws, id } = setup('disconnect');
+
+    for (let n = 1; n <= 4; n++) clients.send(id, notification(n), 'sub_1');
+
+    expect(ws.closed).toBe(4008);
+  });
+});
@@ -1,33 +1,177 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { randomUUID } from 'crypto';
 import WebSocket from 'ws';
+import { MetricsService } from '../metrics/metrics.service';
+import { ClientPolicy } from '../auth/auth.types';
+import { ServerNotificationsDroppedMessage } from '../gateway/client-message.types';
+import {
+  ClientProtocol,
+  ClientSocket,
+  ConnectionDetails,
+  ConnectionInfo,
+  OutboundQueue,
+  QueuedFrame,
+  SlowClientPolicy,
+} from './subscriptions.types';
+import { FrameEncoding, encodeFrame } from './frame-encoding';
+
+/** Close code for clients disconnected by the `disconnect` slow-client policy */
+const CLOSE_SLOW_CONSUMER = 4008;
+/** Shortest time between two `notifications_dropped` notices to a client */
+const DROP_NOTICE_INTERVAL_MS = 1000;
 
 /**
- * Registry of active client WebSocket connections.
+ * Registry of active client connections — WebSockets, and SSE streams
+ * through a {@link ClientSocket} adapter.
+ *
+ * Maintains bidirectional mappings between connection UUIDs and socket
+ * instances, plus the policy each connection authenticated with and its
+ * address, connect time and message counts. Other
+ * services use connection IDs to send messages without holding direct
+ * references to WebSocket objects.
+ *
+ * Applies backpressure per connection: once a socket's `bufferedAmount`
+ * exceeds `CLIENT_MAX_BUFFERED_BYTES`, frames are held in a bounded outbound
+ * queue and flushed as the socket drains. When the queue is full, the
+ * `SLOW_CLIENT_POLICY` decides whether to drop the oldest notification,
+ * conflate to the latest value per subscription, or disconnect the client.
+ * Clients are told about dropped notifications as they happen, at most
+ * once per `DROP_NOTICE_INTERVAL_MS`.
  *
- * Maintains bidirectional mappings between connection UUIDs and WebSocket
- * instances. Other services use connection IDs to send messages without
- * holding direct references to WebSocket objects.
+ * Frames are serialized in the encoding the connection negotiated: JSON
+ * text by default, or binary MessagePack.
  */
 @Injectable()
 export class ClientConnectionService {
   private readonly logger = new Logger(ClientConnectionService.name);
-  private readonly idToWs = new Map<string, WebSocket>();
-  private readonly wsToId = new Map<WebSocket, string>();
+  private readonly idToWs = new Map<string, ClientSocket>();
+  private readonly wsToId = new Map<ClientSocket, string>();
+  private readonly policies = new Map<string, ClientPolicy>();
+  private readonly info = new Map<string, ConnectionInfo>();
+  /** connectionId → frames held back by backpressure */
+  private readonly queues = new Map<string, OutboundQueue>();
 
-  /** Assign a UUID to the WebSocket and store both mappings. */
-  register(ws: WebSocket): string {
+  private readonly maxBufferedBytes: number;
+  private readonly maxQueuedFrames: number;
+  private readonly slowClientPolicy: SlowClientPolicy;
+
+  constructor(
+    private readonly metrics: MetricsService,
+    config: ConfigService,
+  ) {
+    this.maxBufferedBytes = config.get<number>('CLIENT_MAX_BUFFERED_BYTES', 1024 * 1024);
+    this.maxQueuedFrames = config.get<number>('CLIENT_MAX_QUEUED_MESSAGES', 1000);
+    this.slowClientPolicy = config.get<SlowClientPolicy>('SLOW_CLIENT_POLICY', 'drop-oldest');
+  }
+
+  /** Assign a UUID to the socket and store both mappings. */
+  register(ws: ClientSocket, details: ConnectionDetails): string {
     const connectionId = randomUUID();
     this.idToWs.set(connectionId, ws);
     this.wsToId.set(ws, connectionId);
+    this.info.set(connectionId, {
+      ...details,
+      protocol: null,
+      connectedAt: Date.now(),
+      messagesReceived: 0,
+      messagesSent: 0,
+    });
     return connectionId;
   }
 
-  /** Look up the connection ID for a WebSocket instance. */
-  getId(ws: WebSocket): string | undefined {
+  /** Look up the connection ID for a socket instance. */
+  getId(ws: ClientSocket): string | undefined {
     return this.wsToId.get(ws);
   }
 
+  /** Whether a connection ID belongs to a currently registered socket. */
+  has(connectionId: string): boolean {
+    return this.idToWs.has(connectionId);
+  }
+
+  /** The connection's frame encoding; JSON for unknown connections. */
+  getEncoding(connectionId: string): FrameEncoding {
+    return this.info.get(connectionId)?.encoding ?? 'json';
+  }
+
+  /** The Solana network a connection picked; `undefined` for unknown connections. */
+  getNetwork(connectionId: string): string | undefined {
+    return this.info.get(connectionId)?.network;
+  }
+
+  /** Number of connections on a Solana network. */
+  countOnNetwork(network: string): number {
+    let count = 0;
+    for (const info of this.info.values()) {
+      if (info.network === network) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Record the protocol of a connection's first request; later requests
+   * don't change it.
+   *
+   * @returns Whether this was the connection's first request.
+   */
+  setProtocol(connectionId: string, protocol: ClientProtocol): boolean {
+    const info = this.info.get(connectionId);
+    if (!info || info.protocol !== null) return false;
+    info.protocol = protocol;
+    return true;
+  }
+
+  /** Whether a connection speaks JSON-RPC 2.0, so it can't parse the proxy's own frames. */
+  isJsonRpc(connectionId: string): boolean {
+    return this.info.get(connectionId)?.protocol === 'json-rpc';
+  }
+
+  /** Record the policy a connection authenticated with. */
+  setPolicy(connectionId: string, policy: ClientPolicy) {
+    this.policies.set(connectionId, policy);
+  }
+
+  /** The connection's policy, or `undefined` if it hasn't authenticated yet. */
+  getPolicy(connectionId: string): ClientPolicy | undefined {
+    return this.policies.get(connectionId);
+  }
+
+  /** IDs of every registered connection. */
+  ids(): string[] {
+    return [...this.idToWs.keys()];
+  }
+
+  /** Count a message received from the client. */
+  recordReceived(connectionId: string) {
+    const info = this.info.get(connectionId);
+    if (info) info.messagesReceived++;
+  }
+
+  /** Every registered connection with its bookkeeping, for the admin API. */
+  list() {
+    return [...this.idToWs].map(([connectionId, ws]) => ({
+      connectionId,
+      ...this.info.get(connectionId),
+      policy: this.policies.get(connectionId)?.label ?? null,
+      bufferedBytes: ws.bufferedAmount,
+      queuedFrames: this.queues.get(connectionId)?.frames.length ?? 0,
+    }));
+  }
+
+  /**
+   * Close a connection's socket. The gateway's disconnect handling then
+   * cleans up as for any other disconnect.
+   *
+   * @returns `false` if the connection is unknown.
+   */
+  close(connectionId: string, code: number, reason: string): boolean {
+    const ws = this.idToWs.get(connectionId);
+    if (!ws) return false;
+    ws.close(code, reason);
+    return true;
+  }
+
   /** Remove a connection by its ID. */
   remove(connectionId: string) {
     const ws = this.idToWs.get(connectionId);
@@ -35,20 +179,167 @@ export class ClientConnectionService {
       this.wsToId.delete(ws);
     }
     this.idToWs.delete(connectionId);
+    this.policies.delete(connectionId);
+    this.info.delete(connectionId);
+    this.deleteQueue(connectionId);
   }
 
-  /** JSON-serialize and send a message to a client. No-ops if the socket is not open. */
-  send(connectionId: string, data: unknown) {
+  /**
+   * Serialize and send a message to a client. No-ops if the socket is
+   * not open; the drop is counted in metrics. If the socket is backed up the
+   * frame is queued instead.
+   *
+   * @param subscription - Proxy sub ID when the message is a notification,
+   *                       which makes it eligible for dropping or conflation.
+   */
+  send(connectionId: string, data: unknown, subscription?: string) {
     const ws = this.idToWs.get(connectionId);
-    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      this.metrics.clientMessagesDropped.inc({ reason: 'socket_not_open' });
+      return;
+    }
+    const frame = encodeFrame(this.getEncoding(connectionId), data);
+    if (this.queues.has(connectionId) || ws.bufferedAmount > this.maxBufferedBytes) {
+      this.enqueue(connectionId, ws, { frame, subscription });
+      return;
+    }
+    this.write(connectionId, ws, frame);
+  }
+
+  get size(): number {
+    return this.idToWs.size;
+  }
+
+  private write(connectionId: string, ws: ClientSocket, frame: string | Uint8Array) {
     try {
-      ws.send(JSON.stringify(data));
+      ws.send(frame, (err) => {
+        if (!err) this.flush(connectionId);
+      });
+      this.metrics.clientMessagesSent.inc();
+      const info = this.info.get(connectionId);
+      if (info) info.messagesSent++;
     } catch (err) {
+      this.metrics.clientMessagesDropped.inc({ reason: 'send_error' });
       this.logger.error(`Failed to send to ${connectionId}: ${err}`);
     }
   }
 
-  get size(): number {
-    return this.idToWs.size;
+  /**
+   * Queue a frame for a backed-up socket, applying the slow-client policy.
+   *
+   * Under `conflate`, a notification replaces the one already queued for the
+   * same subscription. When the queue is over `CLIENT_MAX_QUEUED_MESSAGES`,
+   * the oldest notification is dropped — or, under `disconnect` or when
+   * only control frames are queued, the client is closed with code 4008.
+   */
+  private enqueue(connectionId: string, ws: ClientSocket, item: QueuedFrame) {
+    let queue = this.queues.get(connectionId);
+    if (!queue) {
+      queue = { frames: [], bySubscription: new Map(), dropped: 0, noticeAt: 0, noticeTimer: null };
+      this.queues.set(connectionId, queue);
+    }
+
+    if (item.subscription && this.slowClientPolicy === 'conflate') {
+      const queued = queue.bySubscription.get(item.subscription);
+      if (queued) {
+        queued.frame = item.frame;
+        this.metrics.clientMessagesDropped.inc({ reason: 'conflated' });
+        this.countDropped(connectionId, queue);
+        return;
+      }
+    }
+
+    queue.frames.push(item);
+    if (item.subscription) queue.bySubscription.set(item.subscription, item);
+    if (queue.frames.length <= this.maxQueuedFrames) return;
+
+    const oldest = queue.frames.findIndex((f) => f.subscription !== undefined);
+    // Control frames are never dropped, so a queue of nothing else can only be cut off
+    if (this.slowClientPolicy === 'disconnect' || oldest === -1) {
+      this.logger.warn(`Disconnecting slow consumer ${connectionId}`);
+      this.deleteQueue(connectionId);
+      this.metrics.clientMessagesDropped.inc({ reason: 'slow_consumer' }, queue.frames.length);
+      ws.close(CLOSE_SLOW_CONSUMER, 'Slow consumer');
+      return;
+    }
+
+    const [dropped] = queue.frames.splice(oldest, 1);
+    if (queue.bySubscription.get(dropped.subscription!) === dropped) {
+      queue.bySubscription.delete(dropped.subscription!);
+    }
+    this.metrics.clientMessagesDropped.inc({ reason: 'slow_consumer' });
+    this.countDropped(connectionId, queue);
+  }
+
+  /**
+   * Count a dropped notification and make sure the client hears of it: right
+   * away if it was last told more than `DROP_NOTICE_INTERVAL_MS` ago, when
+   * that interval ends otherwise.
+   */
+  private countDropped(connectionId: string, queue: OutboundQueue) {
+    queue.dropped++;
+    if (queue.noticeTimer) return;
+    const delay = queue.noticeAt + DROP_NOTICE_INTERVAL_MS - Date.now();
+    if (delay <= 0) {
+      this.sendDropNotice(connectionId, queue);
+      return;
+    }
+    queue.noticeTimer = setTimeout(() => {
+      queue.noticeTimer = null;
+      this.sendDropNotice(connectionId, queue);
+    }, delay);
+  }
+
+  /**
+   * Tell the client how many notifications were dropped since it was last
+   * told. Written past the queue: the client should learn of the drops
+   * before the backlog clears. JSON-RPC clients have no frame for it.
+   */
+  private sendDropNotice(connectionId: string, queue: OutboundQueue) {
+    if (queue.noticeTimer) clearTimeout(queue.noticeTimer);
+    queue.noticeTimer = null;
+    const ws = this.idToWs.get(connectionId);
+    if (queue.dropped === 0 || !ws || ws.readyState !== WebSocket.OPEN) return;
+    if (this.isJsonRpc(connectionId)) return;
+    const notice: ServerNotificationsDroppedMessage = {
+      type: 'notifications_dropped',
+      count: queue.dropped,
+    };
+    queue.dropped = 0;
+    queue.noticeAt = Date.now();
+    this.write(connectionId, ws, encodeFrame(this.getEncoding(connectionId), notice));
+  }
+
+  private deleteQueue(connectionId: string) {
+    const queue = this.queues.get(connectionId);
+    if (queue?.noticeTimer) clearTimeout(queue.noticeTimer);
+    this.queues.delete(connectionId);
+  }
+
+  /**
+   * Write queued frames while the socket is under its buffer limit. Once the
+   * queue is empty, tell the client about drops not yet reported. Runs
+   * from the write callback of every frame sent.
+   */
+  private flush(connectionId: string) {
+    const queue = this.queues.get(connectionId);
+    if (!queue) return;
+    const ws = this.idToWs.get(connectionId);
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      this.deleteQueue(connectionId);
+      return;
+    }
+
+    while (queue.frames.length > 0 && ws.bufferedAmount <= this.maxBufferedBytes) {
+      const item = queue.frames.shift()!;
+      if (item.subscription && queue.bySubscription.get(item.subscription) === item) {
+        queue.bySubscription.delete(item.subscription);
+      }
+      this.write(connectionId, ws, item.frame);
+    }
+    if (queue.frames.length > 0) return;
+
+    this.queues.delete(connectionId);
+    this.sendDropNotice(connectionId, queue);
   }
 }
@@ -0,0 +1,57 @@
+import { Decoder, Encoder } from '@msgpack/msgpack';
+import WebSocket from 'ws';
+
+/** Wire encoding of a client connection's frames */
+export type FrameEncoding = 'json' | 'msgpack';
+
+/** WebSocket subprotocol that selects each encoding */
+export const ENCODING_SUBPROTOCOLS: Record<FrameEncoding, string> = {
+  json: 'json',
+  msgpack: 'msgpack',
+};
+
+// Skipping undefined fields matches what JSON.stringify sends
+const encoder = new Encoder({ ignoreUndefined: true });
+const decoder = new Decoder();
+
+/** Serialize a frame: text for JSON, a binary frame for MessagePack. */
+export function encodeFrame(encoding: FrameEncoding, data: unknown): string | Uint8Array {
+  return encoding === 'msgpack' ? encoder.encode(data) : JSON.stringify(data);
+}
+
+/**
+ * Parse a frame received from a client. Binary frames on a MessagePack
+ * connection are MessagePack; everything else is JSON text.
+ *
+ * @throws If the frame can't be decoded.
+ */
+export function decodeFrame(encoding: FrameEncoding, data: WebSocket.Data, isBinary: boolean): unknown {
+  if (encoding === 'msgpack' && isBinary && typeof data !== 'string') {
+    return decoder.decode(Array.isArray(data) ? Buffer.concat(data) : data);
+  }
+  return JSON.parse(data.toString());
+}
+
+/**
+ * The subprotocol to accept from those a client offered: the first one
+ * naming an encoding, else the first offered (as `ws` does by default), so
+ * clients that send other subprotocols keep connecting.
+ */
+export function selectSubprotocol(protocols: Set<string>): string | false {
+  const known = Object.values(ENCODING_SUBPROTOCOLS);
+  for (const protocol of protocols) {
+    if (known.includes(protocol)) return protocol;
+  }
+  return protocols.values().next().value ?? false;
+}
+
+/**
+ * The encoding a client asked for, by the subprotocol accepted in the
+ * handshake or else an `?encoding=` query param.
+ */
+export function negotiateEncoding(protocol: string, url: string | undefined): FrameEncoding {
+  if (protocol === ENCODING_SUBPROTOCOLS.msgpack) return 'msgpack';
+  if (protocol === ENCODING_SUBPROTOCOLS.json) return 'json';
+  const query = new URL(url ?? '/', 'http://localhost').searchParams;
+  return query.get('encoding') === 'msgpack' ? 'msgpack' : 'json';
+}
@@ -0,0 +1,168 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MethodDefinition } from './subscriptions.types';
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === 'object' && !Array.isArray(v);
+
+/** `[required string, optional config object]`, e.g. `[pubkey, { commitment }]` */
+function stringWithConfig(params: unknown[]): boolean {
+  return (
+    params.length >= 1 &&
+    params.length <= 2 &&
+    isString(params[0]) &&
+    (params[1] === undefined || isObject(params[1]))
+  );
+}
+
+function noParams(params: unknown[]): boolean {
+  return params.length === 0;
+}
+
+/** Every pubsub method the proxy knows how to forward. */
+const METHOD_DEFINITIONS: MethodDefinition[] = [
+  {
+    subscribe: 'accountSubscribe',
+    unsubscribe: 'accountUnsubscribe',
+    notification: 'accountNotification',
+    validateParams: stringWithConfig,
+    oneShot: false,
+    snapshot: true,
+  },
+  {
+    subscribe: 'programSubscribe',
+    unsubscribe: 'programUnsubscribe',
+    notification: 'programNotification',
+    validateParams: stringWithConfig,
+    oneShot: false,
+    snapshot: false,
+  },
+  {
+    subscribe: 'logsSubscribe',
+    unsubscribe: 'logsUnsubscribe',
+    notification: 'logsNotification',
+    validateParams: (params) =>
+      params.length >= 1 &&
+      params.length <= 2 &&
+      (params[0] === 'all' ||
+        params[0] === 'allWithVotes' ||
+        (isObject(params[0]) && Array.isArray(params[0].mentions))) &&
+      (params[1] === undefined || isObject(params[1])),
+    oneShot: false,
+    snapshot: false,
+  },
+  {
+    subscribe: 'signatureSubscribe',
+    unsubscribe: 'signatureUnsubscribe',
+    notification: 'signatureNotification',
+    validateParams: stringWithConfig,
+    oneShot: true,
+    snapshot: false,
+  },
+  {
+    subscribe: 'slotSubscribe',
+    unsubscribe: 'slotUnsubscribe',
+    notification: 'slotNotification',
+    validateParams: noParams,
+    oneShot: false,
+    snapshot: true,
+  },
+  {
+    subscribe: 'slotsUpdatesSubscribe',
+    unsubscribe: 'slotsUpdatesUnsubscribe',
+    notification: 'slotsUpdatesNotification',
+    validateParams: noParams,
+    oneShot: false,
+    snapshot: false,
+  },
+  {
+    subscribe: 'rootSubscribe',
+    unsubscribe: 'rootUnsubscribe',
+    notification: 'rootNotification',
+    validateParams: noParams,
+    oneShot: false,
+    snapshot: true,
+  },
+  {
+    subscribe: 'voteSubscribe',
+    unsubscribe: 'voteUnsubscribe',
+    notification: 'voteNotification',
+    validateParams: noParams,
+    oneShot: false,
+    snapshot: false,
+  },
+  {
+    subscribe: 'blockSubscribe',
+    unsubscribe: 'blockUnsubscribe',
+    notification: 'blockNotification',
+    validateParams: (params) =>
+      params.length >= 1 &&
+      params.length <= 2 &&
+      (params[0] === 'all' ||
+        (isObject(params[0]) && isString(params[0].mentionsAccountOrProgram))) &&
+      (params[1] === undefined || isObject(params[1])),
+    oneShot: false,
+    snapshot: false,
+  },
+  {
+    // Helius enhanced websockets
+    subscribe: 'transactionSubscribe',
+    unsubscribe: 'transactionUnsubscribe',
+    notification: 'transactionNotification',
+    validateParams: (params) =>
+      params.length >= 1 &&
+      params.length <= 2 &&
+      isObject(params[0]) &&
+      (params[1] === undefined || isObject(params[1])),
+    oneShot: false,
+    snapshot: false,
+  },
+];
+
+/**
+ * Registry of the pubsub methods clients may subscribe to.
+ *
+ * The single source of truth for which subscribe methods are accepted, how
+ * their params are validated, which method unsubscribes them upstream,
+ * whether Helius ends them on its own after one notification, and whether
+ * their notifications are state that can be served as snapshots. Operators
+ * narrow the set with `ENABLED_METHODS` / `DISABLED_METHODS`.
+ */
+@Injectable()
+export class MethodRegistry {
+  private readonly logger = new Logger(MethodRegistry.name);
+  /** subscribe method → definition (enabled methods only) */
+  private readonly bySubscribe = new Map<string, MethodDefinition>();
+  /** unsubscribe method → definition (enabled methods only) */
+  private readonly byUnsubscribe = new Map<string, MethodDefinition>();
+
+  constructor(config: ConfigService) {
+    const list = (name: string) =>
+      config
+        .get<string>(name, '')
+        .split(',')
+        .map((m) => m.trim())
+        .filter(Boolean);
+    const enabled = list('ENABLED_METHODS');
+    const disabled = new Set(list('DISABLED_METHODS'));
+
+    for (const def of METHOD_DEFINITIONS) {
+      if (enabled.length > 0 && !enabled.includes(def.subscribe)) continue;
+      if (disabled.has(def.subscribe)) continue;
+      this.bySubscribe.set(def.subscribe, def);
+      this.byUnsubscribe.set(def.unsubscribe, def);
+    }
+    this.logger.log(`Enabled methods: ${[...this.bySubscribe.keys()].join(', ')}`);
+  }
+
+  /** Look up an enabled method by its subscribe method name. */
+  get(subscribeMethod: string): MethodDefinition | undefined {
+    return this.bySubscribe.get(subscribeMethod);
+  }
+
+  /** Look up an enabled method by its unsubscribe method name. */
+  getByUnsubscribe(unsubscribeMethod: string): MethodDefinition | undefined {
+    return this.byUnsubscribe.get(unsubscribeMethod);
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  NotificationFilter,
+  compileLogsPattern,
+  projectFields,
+  validateFields,
+  validateFilter,
+} from './notification-filter';
+
+const OWNER = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const accountResult = (lamports: number, owner = OWNER, data = '') => ({
+  context: { slot: 1 },
+  value: { lamports, owner, data },
+});
+
+const programResult = (pubkey: string, lamports: number) => ({
+  context: { slot: 1 },
+  value: { pubkey, account: { lamports, owner: OWNER, data: '' } },
+});
+
+const logsResult = (...logs: string[]) => ({
+  context: { slot: 1 },
+  value: { signature: 'sig', err: null, logs },
+});
+
+describe('validateFilter', () => {
+  it('accepts the keys that apply to the method', () => {
+    expect(validateFilter({ logsMatch: 'Transfer' }, 'logsSubscribe')).toEqual({ logsMatch: 'Transfer' });
+    expect(validateFilter({ minLamports: 1, owner: OWNER, changedOnly: true }, 'programSubscribe')).toEqual({
+      minLamports: 1,
+      owner: OWNER,
+      changedOnly: true,
+    });
+    expect(validateFilter({ changedOnly: true }, 'slotSubscribe')).toEqual({ changedOnly: true });
+  });
+
+  it.each([
+    ['a key for another method', { logsMatch: 'Transfer' }, 'accountSubscribe'],
+    ['an unknown key', { maxSlot: 5 }, 'accountSubscribe'],
+    ['an empty logsMatch', { logsMatch: '' }, 'logsSubscribe'],
+    ['an overlong logsMatch', { logsMatch: 'a'.repeat(257) }, 'logsSubscribe'],
+    ['an invalid logsMatch pattern', { logsMatch: 'Transfer(' }, 'logsSubscribe'],
+    ['an unsafe logsMatch pattern', { logsMatch: '(a+)+$' }, 'logsSubscribe'],
+    ['a non-numeric lamports bound', { minLamports: '5' }, 'accountSubscribe'],
+    ['a non-boolean changedOnly', { changedOnly: 1 }, 'accountSubscribe'],
+    ['a non-object', ['changedOnly'], 'accountSubscribe'],
+  ])('rejects %s', (_case, raw, method) => {
+    expect(validateFilter(raw, method)).toBeNull();
+  });
+});
+
+describe('compileLogsPattern', () => {
+  it.each([
+    'Instruction: Transfer',
+    '^Program \\w+ invoke \\[\\d\\]$',
+    'Instruction: (?:Transfer|MintTo)\\b',
+    '(?<name>Memo) \\(len [0-9]+?\\)',
+    '\\u{1F600}.*',
+    '[ab|]*c',
+  ])('accepts %s', (source) => {
+    expect(compileLogsPattern(source)).toBeInstanceOf(RegExp);
+  });
+
+  it.each([
+    ['a nested quantifier', '(a+)+$'],
+    ['a quantified alternation', '(a|ab)*c'],
+    ['a second quantifier', 'a*a*b'],
+    ['an optional and a repeat', 'https?://.*'],
+    ['a backreference', '(a)\\1'],
+    ['a named backreference', '(?<x>a)\\k<x>'],
+    ['a lookahead', 'a(?=b)'],
+    ['a lookbehind', '(?<!a)b'],
+    ['invalid syntax', 'a{'],
+  ])('rejects %s', (_case, source) => {
+    expect(compileLogsPattern(source)).toBeNull();
+  });
+});
+
+describe('validateFields and projectFields', () => {
+  it('keeps only the requested paths that exist', () => {
+    const fields = validateFields(['context.slot', 'value.lamports', 'value.missing'])!;
+
+    expect(projectFields(accountResult(5), fields)).toEqual({ context: { slot: 1 }, value: { lamports: 5 } });
+  });
+
+  it.each([[[]], [['value..lamports']], [['value[0]']], ['value'], [Array(33).fill('value')]])(
+    'rejects the fields %j',
+    (raw) => {
+      expect(validateFields(raw)).toBeNull();
+    },
+  );
+});
+
+describe('NotificationFilter', () => {
+  it('passes logs with a line matching logsMatch, within its first 1024 characters', () => {
+    const filter = new NotificationFilter({ logsMatch: 'Instruction: Transfer$' });
+
+    expect(filter.accepts(logsResult('Program invoke [1]', 'Program log: Instruction: Transfer'))).toBe(true);
+    expect(filter.accepts(logsResult('Program log: Instruction: TransferChecked'))).toBe(false);
+    expect(filter.accepts({ context: { slot: 1 }, value: { signature: 'sig' } })).toBe(false);
+    expect(new NotificationFilter({ logsMatch: 'x' }).accepts(logsResult(`${'a'.repeat(1024)}x`))).toBe(false);
+  });
+
+  it('bounds lamports inclusively and checks the owner, for accounts and program accounts', () => {
+    const filter = new NotificationFilter({ minLamports: 10, maxLamports: 20, owner: OWNER });
+
+    expect(filter.accepts(accountResult(10))).toBe(true);
+    expect(filter.accepts(accountResult(20))).toBe(true);
+    expect(filter.accepts(accountResult(9))).toBe(false);
+    expect(filter.accepts(accountResult(21))).toBe(false);
+    expect(filter.accepts(accountResult(15, '11111111111111111111111111111111'))).toBe(false);
+    expect(filter.accepts(programResult('A', 15))).toBe(true);
+    expect(filter.accepts(programResult('A', 25))).toBe(false);
+  });
+
+  it('drops an account value equal to the last one sent', () => {
+    const filter = new NotificationFilter({ changedOnly: true });
+
+    expect(filter.accepts(accountResult(5))).toBe(true);
+    expect(filter.accepts({ ...accountResult(5), context: { slot: 2 } })).toBe(false);
+    expect(filter.accepts(accountResult(6))).toBe(true);
+    expect(filter.accepts(accountResult(5))).toBe(true);
+  });
+
+  it('compares program accounts per pubkey', () => {
+    const filter = new NotificationFilter({ changedOnly: true });
+
+    expect(filter.accepts(programResult('A', 5))).toBe(true);
+    expect(filter.accepts(programResult('B', 5))).toBe(true);
+    expect(filter.accepts(programResult('A', 5))).toBe(false);
+  });
+
+  it('compares notifications without a value whole', () => {
+    const filter = new NotificationFilter({ changedOnly: true });
+
+    expect(filter.accepts({ slot: 1, parent: 0, root: 0 })).toBe(true);
+    expect(filter.accepts({ slot: 2, parent: 1, root: 0 })).toBe(true);
+    expect(filter.accepts({ slot: 2, parent: 1, root: 0 })).toBe(false);
+    expect(filter.accepts(7)).toBe(true);
+    expect(filter.accepts(7)).toBe(false);
+  });
+
+  it('forgets the least recently seen accounts beyond its limit', () => {
+    const filter = new NotificationFilter({ changedOnly: true });
+
+    filter.accepts(programResult('first', 5));
+    filter.accepts(programResult('recent', 5));
+    for (let i = 0; i < 9_999; i++) filter.accepts(programResult(`account-${i}`, 5));
+    // Seen again, so kept; 'first' was evicted instead
+    expect(filter.accepts(programResult('recent', 5))).toBe(false);
+    filter.accepts(programResult('one-more', 5));
+
+    expect(filter.accepts(programResult('first', 5))).toBe(true);
+    expect(filter.accepts(programResult('recent', 5))).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { createHash } from 'crypto';
+
+/** Proxy-side notification filter a client may attach to a subscribe */
+export interface NotificationFilterSpec {
+  /**
+   * Regular expression one of the notification's log lines must match
+   * (`logsSubscribe`); see {@link compileLogsPattern} for what is allowed
+   */
+  logsMatch?: string;
+  /** Minimum account lamports, inclusive (`accountSubscribe`, `programSubscribe`) */
+  minLamports?: number;
+  /** Maximum account lamports, inclusive (`accountSubscribe`, `programSubscribe`) */
+  maxLamports?: number;
+  /** Base-58 owner program the account must belong to (`accountSubscribe`, `programSubscribe`) */
+  owner?: string;
+  /** Only send when the notification's value differs from the last one sent (per account for `programSubscribe`) */
+  changedOnly?: boolean;
+}
+
+const MAX_PATTERN_LENGTH = 256;
+/** Characters of each log line a `logsMatch` pattern is tested against, bounding its backtracking */
+const MAX_MATCHED_LINE_LENGTH = 1024;
+const MAX_FIELDS = 32;
+/** Accounts whose last value a `changedOnly` filter remembers, least recently seen dropped first */
+const MAX_TRACKED_ACCOUNTS = 10_000;
+
+const ACCOUNT_METHODS = ['accountSubscribe', 'programSubscribe'];
+
+/** Subscribe methods each filter key applies to; absent means any method */
+const FILTER_METHODS: Partial<Record<keyof NotificationFilterSpec, string[]>> = {
+  logsMatch: ['logsSubscribe'],
+  minLamports: ACCOUNT_METHODS,
+  maxLamports: ACCOUNT_METHODS,
+  owner: ACCOUNT_METHODS,
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Compile a client's `logsMatch` pattern, refusing those that could
+ * backtrack for long on the event loop. Backtracking grows with the power
+ * of the number of quantifiers, so at most one is allowed, and not over a
+ * group holding an alternation (`(a|ab)*`); backreferences and lookarounds
+ * are refused. Character classes (`[ab]*`) and alternations outside the
+ * quantifier (`Transfer|MintTo`) are fine.
+ *
+ * @returns The pattern, or `null` if it is invalid or unsafe.
+ */
+export function compileLogsPattern(source: string): RegExp | null {
+  let pattern: RegExp;
+  try {
+    // Unicode mode rejects the ambiguous escapes and braces legacy mode reads as literals
+    pattern = new RegExp(source, 'u');
+  } catch {
+    return null;
+  }
+
+  /** Whether each open group, innermost last, holds an alternation */
+  const groups: boolean[] = [false];
+  /** Whether the atom a following quantifier would apply to is such a group */
+  let alternationAtom = false;
+  let quantifiers = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      const next = source[++i];
+      if (/[1-9k]/.test(next)) return null;
+      // `\u{…}` and `\p{…}` braces aren't quantifiers
+      if (/[upP]/.test(next) && source[i + 1] === '{') i = source.indexOf('}', i);
+      alternationAtom = false;
+    } else if (char === '[') {
+      for (i++; source[i] !== ']'; i++) {
+        if (source[i] === '\\') i++;
+      }
+      alternationAtom = false;
+    } else if (char === '(') {
+      if (/^\?(=|!|<=|<!)/.test(source.slice(i + 1))) return null;
+      // Skip the `?:` or `?<name>` of a non-capturing or named group
+      if (source[i + 1] === '?') i = source[i + 2] === ':' ? i + 2 : source.indexOf('>', i);
+      groups.push(false);
+    } else if (char === ')') {
+      alternationAtom = groups.pop()!;
+      groups[groups.length - 1] ||= alternationAtom;
+    } else if (char === '|') {
+      groups[groups.length - 1] = true;
+    } else if (char === '*' || char === '+' || char === '?' || char === '{') {
+      if (char === '{') i = source.indexOf('}', i);
+      // A lazy quantifier's `?` belongs to the quantifier before it
+      if (source[i + 1] === '?') i++;
+      if (++quantifiers > 1 || alternationAtom) return null;
+    } else {
+      alternationAtom = false;
+    }
+  }
+  return pattern;
+}
+
+/**
+ * Validate a client-supplied filter for a subscribe method.
+ *
+ * @returns The filter, or `null` if it has unknown keys, values of the
+ *          wrong type, an empty, overlong or unsafe `logsMatch`, or keys
+ *          that don't apply to the method.
+ */
+export function validateFilter(raw: unknown, method: string): NotificationFilterSpec | null {
+  if (!isObject(raw)) return null;
+  for (const [key, value] of Object.entries(raw)) {
+    const methods = FILTER_METHODS[key as keyof NotificationFilterSpec];
+    if (methods && !methods.includes(method)) return null;
+    switch (key) {
+      case 'logsMatch':
+        if (typeof value !== 'string' || !value || value.length > MAX_PATTERN_LENGTH) return null;
+        if (!compileLogsPattern(value)) return null;
+        break;
+      case 'minLamports':
+      case 'maxLamports':
+        if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+        break;
+      case 'owner':
+        if (typeof value !== 'string' || !value) return null;
+        break;
+      case 'changedOnly':
+        if (typeof value !== 'boolean') return null;
+        break;
+      default:
+        return null;
+    }
+  }
+  return raw as NotificationFilterSpec;
+}
+
+/** Validate a `fields` projection: a non-empty list of dotted paths into `result`. */
+export function validateFields(raw: unknown): string[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_FIELDS) return null;
+  if (!raw.every((f) => typeof f === 'string' && /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/.test(f))) {
+    return null;
+  }
+  return raw as string[];
+}
+
+/**
+ * Trim a notification `result` down to the requested dotted paths, e.g.
+ * `["context.slot", "value.lamports"]`. Paths missing from the result are
+ * left out.
+ */
+export function projectFields(result: unknown, fields: string[]): unknown {
+  const out: Record<string, unknown> = {};
+  for (const field of fields) {
+    const path = field.split('.');
+    let value: unknown = result;
+    for (const segment of path) {
+      value = isObject(value) ? value[segment] : undefined;
+    }
+    if (value === undefined) continue;
+
+    let target = out;
+    for (const segment of path.slice(0, -1)) {
+      if (!isObject(target[segment])) target[segment] = {};
+      target = target[segment] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+  return out;
+}
+
+/**
+ * A client subscription's compiled {@link NotificationFilterSpec}.
+ *
+ * Stateful when `changedOnly` is set: it remembers a digest of the last
+ * value it accepted (per account pubkey for program notifications, for at
+ * most `MAX_TRACKED_ACCOUNTS` accounts). Notifications without a `value`,
+ * such as slot updates, are compared whole.
+ */
+export class NotificationFilter {
+  private readonly lastDigest = new Map<string, string>();
+  private readonly logsPattern: RegExp | null;
+
+  constructor(private readonly spec: NotificationFilterSpec) {
+    this.logsPattern = spec.logsMatch != null ? compileLogsPattern(spec.logsMatch) : null;
+  }
+
+  /** Whether a notification `result` should be delivered to the client. */
+  accepts(result: unknown): boolean {
+    const value = isObject(result) ? result.value : undefined;
+    // programNotification wraps the account as `{ pubkey, account }`
+    const account = isObject(value) && isObject(value.account) ? value.account : value;
+
+    if (this.spec.logsMatch != null) {
+      const pattern = this.logsPattern;
+      const logs = isObject(value) && Array.isArray(value.logs) ? value.logs : [];
+      if (!pattern || !logs.some((line) => typeof line === 'string' && pattern.test(line.slice(0, MAX_MATCHED_LINE_LENGTH)))) {
+        return false;
+      }
+    }
+
+    if (this.spec.minLamports != null || this.spec.maxLamports != null) {
+      const lamports = isObject(account) ? account.lamports : undefined;
+      if (typeof lamports !== 'number') return false;
+      if (this.spec.minLamports != null && lamports < this.spec.minLamports) return false;
+      if (this.spec.maxLamports != null && lamports > this.spec.maxLamports) return false;
+    }
+
+    if (this.spec.owner != null) {
+      if (!isObject(account) || account.owner !== this.spec.owner) return false;
+    }
+
+    if (this.spec.changedOnly) {
+      const key = isObject(value) && typeof value.pubkey === 'string' ? value.pubkey : '';
+      const compared = value === undefined ? result : account;
+      const digest = createHash('sha1').update(JSON.stringify(compared ?? null)).digest('base64');
+      const last = this.lastDigest.get(key);
+      this.lastDigest.delete(key);
+      this.lastDigest.set(key, digest);
+      if (this.lastDigest.size > MAX_TRACKED_ACCOUNTS) {
+        this.lastDigest.delete(this.lastDigest.keys().next().value!);
+      }
+      if (last === digest) return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,94 @@
+import { NotificationThrottle, ThrottleSpec, validateThrottle } from './notification-throttle';
+
+describe('validateThrottle', () => {
+  it('accepts throttleMs or maxRatePerSec', () => {
+    expect(validateThrottle({})).toBeUndefined();
+    expect(validateThrottle({ throttleMs: 250 })).toEqual({ intervalMs: 250, trailing: true });
+    expect(validateThrottle({ maxRatePerSec: 3, trailing: false })).toEqual({ intervalMs: 334, trailing: false });
+  });
+
+  it.each([
+    { throttleMs: 100, maxRatePerSec: 10 },
+    { throttleMs: 0 },
+    { throttleMs: 1.5 },
+    { throttleMs: 60_001 },
+    { maxRatePerSec: 0 },
+    { maxRatePerSec: 1001 },
+    { maxRatePerSec: Infinity },
+    { throttleMs: 100, trailing: 'yes' },
+    { trailing: true },
+    { trailing: false },
+  ])('rejects %j', (msg) => {
+    expect(validateThrottle(msg)).toBeNull();
+  });
+});
+
+describe('NotificationThrottle', () => {
+  let sent: [number, unknown][];
+  let dropped: number;
+  let start: number;
+
+  const create = (spec: ThrottleSpec) =>
+    new NotificationThrottle(
+      spec,
+      (_method, result) => sent.push([Date.now() - start, result]),
+      () => dropped++,
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    start = Date.now();
+    sent = [];
+    dropped = 0;
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('sends the first notification of a window and drops the rest without trailing', () => {
+    const throttle = create({ intervalMs: 100, trailing: false });
+
+    throttle.push('slotNotification', 1);
+    throttle.push('slotNotification', 2);
+    jest.advanceTimersByTime(50);
+    throttle.push('slotNotification', 3);
+    jest.advanceTimersByTime(50);
+    throttle.push('slotNotification', 4);
+
+    expect(sent).toEqual([
+      [0, 1],
+      [100, 4],
+    ]);
+    expect(dropped).toBe(2);
+  });
+
+  it('conflates a window to its latest notification and sends it when the window ends with trailing', () => {
+    const throttle = create({ intervalMs: 100, trailing: true });
+
+    throttle.push('slotNotification', 1);
+    throttle.push('slotNotification', 2);
+    jest.advanceTimersByTime(30);
+    throttle.push('slotNotification', 3);
+    jest.advanceTimersByTime(70);
+    // The trailing send opened a new window
+    throttle.push('slotNotification', 4);
+    jest.advanceTimersByTime(100);
+
+    expect(sent).toEqual([
+      [0, 1],
+      [100, 3],
+      [200, 4],
+    ]);
+    expect(dropped).toBe(1);
+  });
+
+  it('discards a held notification on cancel', () => {
+    const throttle = create({ intervalMs: 100, trailing: true });
+
+    throttle.push('slotNotification', 1);
+    throttle.push('slotNotification', 2);
+    throttle.cancel();
+    jest.advanceTimersByTime(200);
+
+    expect(sent).toEqual([[0, 1]]);
+  });
+});
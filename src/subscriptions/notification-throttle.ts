@@ -0,0 +1,95 @@
+/** Per-subscription rate limit a client may attach to a subscribe */
+export interface ThrottleSpec {
+  /** Shortest time between two notifications sent to the client */
+  intervalMs: number;
+  /**
+   * Send the latest notification of each window when it ends (the default).
+   * `false` drops it instead, which can leave the client on a stale value.
+   */
+  trailing: boolean;
+}
+
+const MAX_THROTTLE_MS = 60_000;
+const MAX_RATE_PER_SEC = 1000;
+
+/**
+ * Validate the throttle fields of a subscribe message: `throttleMs` or
+ * `maxRatePerSec` (not both), and an optional `trailing` flag, `true`
+ * unless set to `false`.
+ *
+ * @returns The throttle, `undefined` if none was asked for, or `null` if
+ *          the fields are invalid.
+ */
+export function validateThrottle(msg: Record<string, unknown>): ThrottleSpec | null | undefined {
+  const { throttleMs, maxRatePerSec, trailing } = msg;
+  if (trailing !== undefined && typeof trailing !== 'boolean') return null;
+  if (throttleMs !== undefined && maxRatePerSec !== undefined) return null;
+
+  let intervalMs: number;
+  if (throttleMs !== undefined) {
+    if (!Number.isInteger(throttleMs) || (throttleMs as number) < 1) return null;
+    if ((throttleMs as number) > MAX_THROTTLE_MS) return null;
+    intervalMs = throttleMs as number;
+  } else if (maxRatePerSec !== undefined) {
+    if (typeof maxRatePerSec !== 'number' || !Number.isFinite(maxRatePerSec)) return null;
+    if (maxRatePerSec <= 0 || maxRatePerSec > MAX_RATE_PER_SEC) return null;
+    intervalMs = Math.ceil(1000 / maxRatePerSec);
+  } else {
+    return trailing === undefined ? undefined : null;
+  }
+  return { intervalMs, trailing: trailing !== false };
+}
+
+/**
+ * Limits one client subscription to a notification every `intervalMs`.
+ *
+ * A notification that arrives once the interval has passed is sent right
+ * away and opens a new window. Within a window only the latest
+ * notification is kept and sent when the window ends (opening the next
+ * one), so the last value of a burst always reaches the client. With
+ * `trailing: false` it is dropped instead.
+ */
+export class NotificationThrottle {
+  private nextSendAt = 0;
+  private held: { method: string; result: unknown } | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly spec: ThrottleSpec,
+    private readonly send: (method: string, result: unknown) => void,
+    /** Called for every notification replaced or dropped within a window */
+    private readonly onDrop: () => void,
+  ) {}
+
+  push(method: string, result: unknown) {
+    const now = Date.now();
+    if (!this.timer && now >= this.nextSendAt) {
+      this.nextSendAt = now + this.spec.intervalMs;
+      this.send(method, result);
+      return;
+    }
+    if (!this.spec.trailing) {
+      this.onDrop();
+      return;
+    }
+    if (this.held) this.onDrop();
+    this.held = { method, result };
+    this.timer ??= setTimeout(() => this.flush(), this.nextSendAt - now);
+  }
+
+  /** Discard a held notification and stop the window timer. */
+  cancel() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.held = null;
+  }
+
+  private flush() {
+    this.timer = null;
+    const held = this.held;
+    if (!held) return;
+    this.held = null;
+    this.nextSendAt = Date.now() + this.spec.intervalMs;
+    this.send(held.method, held.result);
+  }
+}
@@ -0,0 +1,106 @@
+import { ResubscribeOutcome, ResubscribePass } from './resubscribe-pass';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResubscribePass', () => {
+  let start: number;
+  /** Start time of each worker call, relative to the test's start */
+  let starts: number[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    start = Date.now();
+    starts = [];
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  /** A worker taking `ms` per item that answers with each item's outcome */
+  const worker =
+    (ms: number, outcomes: (item: number, call: number) => ResubscribeOutcome = () => 'ok') =>
+    async (item: number) => {
+      starts.push(Date.now() - start);
+      const call = starts.length;
+      await sleep(ms);
+      return outcomes(item, call);
+    };
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    let maxInFlight = 0;
+    const work = worker(10);
+    const pass: ResubscribePass<number> = new ResubscribePass(
+      [1, 2, 3, 4, 5, 6, 7],
+      (item) => {
+        maxInFlight = Math.max(maxInFlight, pass.inFlight);
+        return work(item);
+      },
+      { concurrency: 3, ratePerSec: 0 },
+    );
+
+    const running = pass.run();
+    await jest.advanceTimersByTimeAsync(100);
+    await running;
+
+    expect(maxInFlight).toBe(3);
+    expect(starts).toEqual([0, 0, 0, 10, 10, 10, 20]);
+    expect(pass.status).toMatchObject({ total: 7, completed: 7, failed: 0, remaining: 0 });
+  });
+
+  it('paces starts to `ratePerSec`', async () => {
+    const pass = new ResubscribePass([1, 2, 3, 4], worker(1), { concurrency: 4, ratePerSec: 10 });
+
+    const running = pass.run();
+    await jest.advanceTimersByTimeAsync(1000);
+    await running;
+
+    expect(starts).toEqual([0, 100, 200, 300]);
+  });
+
+  it('requeues a rate-limited item and pauses the pass with a doubling backoff', async () => {
+    const pass = new ResubscribePass(
+      [1, 2],
+      worker(1, (item, call) => (item === 1 && call <= 2 ? 'rate_limited' : 'ok')),
+      { concurrency: 1, ratePerSec: 0 },
+    );
+
+    const running = pass.run();
+    await jest.advanceTimersByTimeAsync(500);
+    expect(pass.status.pausedUntil).toBe(start + 1001);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    await running;
+
+    // 1 s after the first rate limit, then 2 s after the second
+    expect(starts).toEqual([0, 1001, 3002, 3003]);
+    expect(pass.status).toMatchObject({ completed: 2, rateLimited: 2, pausedUntil: null });
+  });
+
+  it('counts failed items apart from completed ones', async () => {
+    const pass = new ResubscribePass([1, 2, 3], worker(1, (item) => (item === 2 ? 'failed' : 'skipped')), {
+      concurrency: 2,
+      ratePerSec: 0,
+    });
+
+    const running = pass.run();
+    await jest.advanceTimersByTimeAsync(10);
+    await running;
+
+    expect(pass.status).toMatchObject({ total: 3, completed: 2, failed: 1, remaining: 0 });
+  });
+
+  it('starts nothing new once cancelled, even while paused', async () => {
+    const pass = new ResubscribePass([1, 2, 3], worker(1, () => 'rate_limited'), {
+      concurrency: 1,
+      ratePerSec: 0,
+    });
+
+    const running = pass.run();
+    await jest.advanceTimersByTimeAsync(10);
+    pass.cancel();
+    await running;
+
+    expect(starts).toEqual([0]);
+    expect(pass.isCancelled).toBe(true);
+    expect(pass.remaining).toBe(3);
+  });
+});
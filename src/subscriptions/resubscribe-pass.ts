@@ -0,0 +1,134 @@
+/** How a re-subscribe attempt ended, as reported by the pass's worker */
+export type ResubscribeOutcome = 'ok' | 'failed' | 'skipped' | 'rate_limited';
+
+export interface ResubscribePassOptions {
+  /** Most requests in flight at once */
+  concurrency: number;
+  /** Most requests started per second; `0` for no pacing */
+  ratePerSec: number;
+  /** Called whenever an item settles */
+  onProgress?: () => void;
+}
+
+/**
+ * Re-subscribes a batch of upstream subscriptions after a reconnect with
+ * bounded concurrency and a paced start rate.
+ *
+ * An item whose worker reports `rate_limited` goes back on the queue and
+ * the whole pass pauses, 1 s doubling to 30 s while the rate limiting
+ * lasts. {@link cancel} stops the pass from starting anything new; items
+ * already started finish on their own.
+ */
+export class ResubscribePass<T> {
+  private readonly queue: T[];
+  private readonly intervalMs: number;
+  private readonly sleeps = new Set<() => void>();
+  private nextStartAt = 0;
+  private pausedUntil = 0;
+  private backoffAttempt = 0;
+  private cancelled = false;
+
+  readonly total: number;
+  readonly startedAt = Date.now();
+  inFlight = 0;
+  completed = 0;
+  failed = 0;
+  rateLimited = 0;
+
+  constructor(
+    items: T[],
+    private readonly worker: (item: T) => Promise<ResubscribeOutcome>,
+    private readonly options: ResubscribePassOptions,
+  ) {
+    this.queue = [...items];
+    this.total = items.length;
+    this.intervalMs = options.ratePerSec > 0 ? 1000 / options.ratePerSec : 0;
+  }
+
+  get remaining(): number {
+    return this.queue.length + this.inFlight;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /** Progress for `/health`. */
+  get status() {
+    return {
+      total: this.total,
+      completed: this.completed,
+      failed: this.failed,
+      remaining: this.remaining,
+      rateLimited: this.rateLimited,
+      startedAt: this.startedAt,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+    };
+  }
+
+  /** Work through every item; resolves once all are done or the pass is cancelled. */
+  async run(): Promise<void> {
+    const workers = Math.max(1, Math.min(this.options.concurrency, this.queue.length));
+    await Promise.all(Array.from({ length: workers }, () => this.work()));
+  }
+
+  cancel() {
+    this.cancelled = true;
+    for (const wake of this.sleeps) wake();
+    this.sleeps.clear();
+  }
+
+  private async work() {
+    while (!this.cancelled && this.queue.length > 0) {
+      await this.waitForSlot();
+      if (this.cancelled) return;
+      const item = this.queue.shift();
+      if (item === undefined) return;
+
+      this.inFlight++;
+      const outcome = await this.worker(item);
+      this.inFlight--;
+      this.options.onProgress?.();
+
+      if (outcome === 'rate_limited') {
+        this.rateLimited++;
+        this.queue.unshift(item);
+        // Requests that were in flight together only extend the pause once
+        if (this.pausedUntil <= Date.now()) {
+          this.pausedUntil = Date.now() + Math.min(1000 * 2 ** this.backoffAttempt, 30_000);
+          this.backoffAttempt++;
+        }
+        continue;
+      }
+      if (outcome === 'ok') this.backoffAttempt = 0;
+      if (outcome === 'failed') {
+        this.failed++;
+      } else {
+        this.completed++;
+      }
+    }
+  }
+
+  /** Wait out a rate-limit pause and the pacing interval, then claim a start slot. */
+  private async waitForSlot() {
+    for (;;) {
+      const now = Date.now();
+      const startAt = Math.max(this.pausedUntil, this.nextStartAt);
+      if (startAt <= now || this.cancelled) break;
+      await this.sleep(startAt - now);
+    }
+    this.nextStartAt = Math.max(Date.now(), this.nextStartAt) + this.intervalMs;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.sleeps.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.sleeps.add(wake);
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { SnapshotCache, notificationSlot } from './snapshot-cache';
+
+const account = (slot: number, lamports: number) => ({ context: { slot }, value: { lamports } });
+
+describe('notificationSlot', () => {
+  it('reads the slot of every notification shape', () => {
+    expect(notificationSlot(account(7, 1))).toBe(7);
+    expect(notificationSlot({ slot: 8, parent: 7, root: 6 })).toBe(8);
+    expect(notificationSlot(9)).toBe(9);
+    expect(notificationSlot({ value: 1 })).toBeNull();
+    expect(notificationSlot(null)).toBeNull();
+  });
+});
+
+describe('SnapshotCache', () => {
+  it('keeps the latest notification per key with its slot', () => {
+    const cache = new SnapshotCache(10);
+
+    cache.set('a', 'accountNotification', account(1, 100));
+    cache.set('a', 'accountNotification', account(2, 200));
+
+    expect(cache.get('a')).toMatchObject({ method: 'accountNotification', result: account(2, 200), slot: 2 });
+    expect(cache.size).toBe(1);
+  });
+
+  it('evicts the least recently used key, refreshed by reads and writes', () => {
+    const cache = new SnapshotCache(2);
+    cache.set('a', 'slotNotification', { slot: 1 });
+    cache.set('b', 'slotNotification', { slot: 1 });
+    cache.get('a');
+
+    cache.set('c', 'slotNotification', { slot: 1 });
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('does not replace a snapshot with a notification for an older slot', () => {
+    const cache = new SnapshotCache(10);
+    cache.set('a', 'accountNotification', account(5, 500));
+
+    cache.set('a', 'accountNotification', account(4, 400));
+    expect(cache.get('a')?.result).toEqual(account(5, 500));
+
+    cache.set('a', 'accountNotification', account(5, 501));
+    expect(cache.get('a')?.result).toEqual(account(5, 501));
+  });
+
+  it('replaces a snapshot without a slot by any notification', () => {
+    const cache = new SnapshotCache(10);
+    cache.set('a', 'accountNotification', { value: 1 });
+
+    cache.set('a', 'accountNotification', account(1, 100));
+
+    expect(cache.get('a')?.slot).toBe(1);
+  });
+
+  it('stores nothing with a limit of 0, and forgets deleted keys', () => {
+    const disabled = new SnapshotCache(0);
+    disabled.set('a', 'slotNotification', { slot: 1 });
+    expect(disabled.get('a')).toBeUndefined();
+
+    const cache = new SnapshotCache(10);
+    cache.set('a', 'slotNotification', { slot: 1 });
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+    // A dropped snapshot doesn't hold back the next, older-slot one
+    cache.set('a', 'slotNotification', { slot: 0 });
+    expect(cache.get('a')?.slot).toBe(0);
+  });
+});
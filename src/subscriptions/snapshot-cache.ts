@@ -0,0 +1,63 @@
+/** The latest notification of an upstream subscription */
+export interface Snapshot {
+  method: string;
+  result: unknown;
+  /** Slot the notification is for, if it carries one */
+  slot: number | null;
+  receivedAt: number;
+}
+
+/**
+ * The slot a notification `result` is for: `context.slot` for account,
+ * program, logs and signature notifications, `slot` for slot updates, or
+ * the result itself for root notifications.
+ */
+export function notificationSlot(result: unknown): number | null {
+  if (typeof result === 'number') return result;
+  if (typeof result !== 'object' || result === null) return null;
+  const { context, slot } = result as { context?: { slot?: unknown }; slot?: unknown };
+  if (typeof context?.slot === 'number') return context.slot;
+  return typeof slot === 'number' ? slot : null;
+}
+
+/**
+ * Last notification per canonical key, bounded to `limit` keys. Reads and
+ * writes both refresh a key, and the least recently used one is evicted
+ * first (a `Map` keeps insertion order, so that is its first key). A
+ * notification for an older slot than the cached one doesn't replace it,
+ * so a lagging endpoint can't roll a snapshot back.
+ */
+export class SnapshotCache {
+  private readonly entries = new Map<string, Snapshot>();
+
+  constructor(private readonly limit: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): Snapshot | undefined {
+    const snapshot = this.entries.get(key);
+    if (snapshot) {
+      this.entries.delete(key);
+      this.entries.set(key, snapshot);
+    }
+    return snapshot;
+  }
+
+  set(key: string, method: string, result: unknown) {
+    if (this.limit <= 0) return;
+    const slot = notificationSlot(result);
+    const current = this.entries.get(key);
+    if (current?.slot != null && slot != null && slot < current.slot) return;
+    this.entries.delete(key);
+    this.entries.set(key, { method, result, slot, receivedAt: Date.now() });
+    if (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
@@ -1,11 +1,13 @@
 import { Module } from '@nestjs/common';
 import { UpstreamModule } from '../upstream/upstream.module';
+import { ClusterModule } from '../cluster/cluster.module';
 import { SubscriptionsService } from './subscriptions.service';
 import { ClientConnectionService } from './client-connection.service';
+import { MethodRegistry } from './method-registry.service';
 
 @Module({
-  imports: [UpstreamModule],
-  providers: [SubscriptionsService, ClientConnectionService],
-  exports: [SubscriptionsService, ClientConnectionService],
+  imports: [UpstreamModule, ClusterModule],
+  providers: [SubscriptionsService, ClientConnectionService, MethodRegistry],
+  exports: [SubscriptionsService, ClientConnectionService, MethodRegistry],
 })
 export class SubscriptionsModule {}
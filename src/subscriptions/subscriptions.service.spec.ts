@@ -0,0 +1,195 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ClusterService } from '../cluster/cluster.service';
+import { MemoryNotificationBus } from '../cluster/memory-notification-bus';
+import { MetricsService } from '../metrics/metrics.service';
+import { UpstreamService } from '../upstream/upstream.service';
+import { ClientConnectionService } from './client-connection.service';
+import { MethodRegistry } from './method-registry.service';
+import { SubscriptionsService } from './subscriptions.service';
+
+/** Let pending promise callbacks run */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * A SubscriptionsService on a fake upstream pool of one connection, with
+ * fake client connections that record the frames they are sent. Its
+ * cluster events are wired up as Nest would.
+ */
+function createService(env: Record<string, unknown> = {}) {
+  const config = new ConfigService(env);
+  let nextHeliusId = 1;
+  const upstream = {
+    acquire: jest.fn(() => 0),
+    release: jest.fn(),
+    isConnectionOpen: jest.fn(() => true),
+    sendRequest: jest.fn(async (method: string) => (method.endsWith('Unsubscribe') ? true : nextHeliusId++)),
+  };
+  const sent: { connectionId: string; frame: Record<string, unknown> }[] = [];
+  const clients = {
+    has: () => true,
+    getNetwork: () => 'default',
+    getPolicy: () => undefined,
+    send: jest.fn((connectionId: string, frame: Record<string, unknown>) => sent.push({ connectionId, frame })),
+  };
+  const events = new EventEmitter2();
+  const cluster = new ClusterService(config, events);
+  const service = new SubscriptionsService(
+    upstream as unknown as UpstreamService,
+    clients as unknown as ClientConnectionService,
+    new MethodRegistry(config),
+    new MetricsService(),
+    cluster,
+    config,
+  );
+  events.on('cluster.notification', (key, method, result) => service.handleClusterNotification(key, method, result));
+  events.on('cluster.elected', (key) => service.handleElected(key));
+  events.on('cluster.demoted', (key) => service.handleDemoted(key));
+  /** Deliver a notification from the fake upstream */
+  const notify = (heliusSubId: number, method: string, result: unknown) =>
+    service.handleNotification({ method, params: { subscription: heliusSubId, result } }, 0);
+  const framesOf = (connectionId: string, type: string) =>
+    sent.filter((s) => s.connectionId === connectionId && s.frame.type === type).map((s) => s.frame);
+  return { service, upstream, cluster, notify, framesOf };
+}
+
+describe('SubscriptionsService', () => {
+  let created: ReturnType<typeof createService>[] = [];
+
+  const service = (env: Record<string, unknown> = {}) => {
+    const instance = createService(env);
+    created.push(instance);
+    return instance;
+  };
+
+  beforeAll(() => Logger.overrideLogger(false));
+
+  afterEach(async () => {
+    for (const { service, cluster } of created) {
+      service.onModuleDestroy();
+      await cluster.onModuleDestroy();
+    }
+    created = [];
+  });
+
+  describe('snapshots', () => {
+    const account = (slot: number) => ({ context: { slot }, value: { lamports: slot } });
+
+    it('sends a new subscriber the latest state of a live subscription', async () => {
+      const { service: subs, notify, framesOf } = service();
+      await subs.subscribe('a', 'default', 'accountSubscribe', ['X']);
+      notify(1, 'accountNotification', account(5));
+
+      const sub = await subs.subscribe('b', 'default', 'accountSubscribe', ['X']);
+
+      expect(subs.sendSnapshot(sub)).toBe(true);
+      expect(framesOf('b', 'snapshot')).toEqual([
+        expect.objectContaining({ subscriptionId: sub.proxySubId, result: account(5), slot: 5 }),
+      ]);
+    });
+
+    it.each([
+      ['logsSubscribe', ['all'], 'logsNotification'],
+      ['programSubscribe', ['P'], 'programNotification'],
+      ['blockSubscribe', ['all'], 'blockNotification'],
+    ])('keeps no snapshot of %s events', async (method, params, notification) => {
+      const { service: subs, notify } = service();
+      await subs.subscribe('a', 'default', method, params);
+      notify(1, notification, account(5));
+
+      const sub = await subs.subscribe('b', 'default', method, params);
+
+      expect(subs.sendSnapshot(sub)).toBe(false);
+      expect(subs.stats.snapshots).toBe(0);
+    });
+
+    it('drops snapshots when their upstream connection drops or reconnects', async () => {
+      const { service: subs, notify } = service();
+      await subs.subscribe('a', 'default', 'accountSubscribe', ['X']);
+      notify(1, 'accountNotification', account(5));
+
+      subs.handleUpstreamDisconnected(0);
+      expect(subs.stats.snapshots).toBe(0);
+
+      notify(1, 'accountNotification', account(6));
+      expect(subs.stats.snapshots).toBe(1);
+      await subs.handleReconnected(0, 100);
+      expect(subs.stats.snapshots).toBe(0);
+      await settle();
+
+      const sub = await subs.subscribe('b', 'default', 'accountSubscribe', ['X']);
+      expect(subs.sendSnapshot(sub)).toBe(false);
+    });
+  });
+
+  describe('with a cluster bus', () => {
+    const LEASE_TTL_MS = 60;
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    let n = 0;
+    let key: string;
+
+    const instance = (id: string, env: Record<string, unknown> = {}) =>
+      service({ CLUSTER_BUS: 'memory', CLUSTER_LEASE_TTL_MS: LEASE_TTL_MS, INSTANCE_ID: id, ...env });
+
+    beforeEach(() => {
+      n++;
+      key = `Account${n}`;
+    });
+
+    it('places only the subscriptions it leads on a pool connection', async () => {
+      const a = instance('a');
+      const b = instance('b');
+
+      await a.service.subscribe('c1', 'default', 'accountSubscribe', [key]);
+      await b.service.subscribe('c2', 'default', 'accountSubscribe', [key]);
+
+      expect(a.upstream.acquire).toHaveBeenCalledTimes(1);
+      expect(b.upstream.acquire).not.toHaveBeenCalled();
+      expect(b.upstream.sendRequest).not.toHaveBeenCalled();
+      expect(b.service.list()).toEqual([expect.objectContaining({ leader: false, connection: null })]);
+    });
+
+    it('counts only the subscriptions it leads against MAX_UPSTREAM_SUBSCRIPTIONS', async () => {
+      const a = instance('a');
+      const b = instance('b', { MAX_UPSTREAM_SUBSCRIPTIONS: 1 });
+      await a.service.subscribe('c1', 'default', 'accountSubscribe', [key]);
+      await a.service.subscribe('c1', 'default', 'accountSubscribe', [`${key}-2`]);
+
+      await b.service.subscribe('c2', 'default', 'accountSubscribe', [key]);
+      await b.service.subscribe('c2', 'default', 'accountSubscribe', [`${key}-2`]);
+      await b.service.subscribe('c2', 'default', 'accountSubscribe', [`${key}-3`]);
+
+      await expect(b.service.subscribe('c2', 'default', 'accountSubscribe', [`${key}-4`])).rejects.toThrow(
+        'upstream subscription limit reached (1)',
+      );
+    });
+
+    it('takes a pool slot when elected and gives it back when demoted', async () => {
+      const a = instance('a');
+      const b = instance('b');
+      await a.service.subscribe('c1', 'default', 'accountSubscribe', [key]);
+      await b.service.subscribe('c2', 'default', 'accountSubscribe', [key]);
+
+      // The leader's last subscription goes, so it hands the key over
+      a.service.forceTeardown(a.service.list()[0].key);
+      await sleep(10);
+
+      expect(b.upstream.acquire).toHaveBeenCalledTimes(1);
+      expect(b.upstream.sendRequest).toHaveBeenCalledWith('accountSubscribe', [key], 0, true);
+      expect(b.service.list()).toEqual([expect.objectContaining({ leader: true, connection: 0 })]);
+
+      // Another instance takes the lease over
+      const leaseName = `leader:${b.service.list()[0].key}`;
+      const bus = new MemoryNotificationBus();
+      await bus.releaseLease(leaseName, 'b');
+      await bus.acquireLease(leaseName, 'other', 10_000);
+      await sleep(LEASE_TTL_MS);
+
+      expect(b.service.list()).toEqual([expect.objectContaining({ leader: false, connection: null })]);
+      expect(b.upstream.release).toHaveBeenCalledWith(0);
+      expect(b.upstream.sendRequest).toHaveBeenCalledWith('accountUnsubscribe', [expect.any(Number)], 0);
+      await bus.releaseLease(leaseName, 'other');
+    });
+  });
+});
@@ -3,48 +3,119 @@ import { ConfigService } from '@nestjs/config';
 import { OnEvent } from '@nestjs/event-emitter';
 import { randomUUID } from 'crypto';
 import { UpstreamService } from '../upstream/upstream.service';
+import { isRateLimitError } from '../upstream/upstream-connection';
+import { canonicalKey } from '../upstream/canonical-key.util';
+import { MetricsService } from '../metrics/metrics.service';
+import { ClusterService } from '../cluster/cluster.service';
+import { ServerPendingMessage, ServerSnapshotMessage } from '../gateway/client-message.types';
 import { ClientConnectionService } from './client-connection.service';
-import { Subscription } from './subscriptions.types';
-
-/** Map from method → unsubscribe method */
-const UNSUB_METHOD: Record<string, string> = {
-  accountSubscribe: 'accountUnsubscribe',
-  programSubscribe: 'programUnsubscribe',
-  logsSubscribe: 'logsUnsubscribe',
-  slotSubscribe: 'slotUnsubscribe',
-  signatureSubscribe: 'signatureUnsubscribe',
-  rootSubscribe: 'rootUnsubscribe',
-};
+import { MethodRegistry } from './method-registry.service';
+import { NotificationFilter, projectFields } from './notification-filter';
+import { NotificationThrottle } from './notification-throttle';
+import { SnapshotCache } from './snapshot-cache';
+import { ResubscribeOutcome, ResubscribePass, ResubscribePassOptions } from './resubscribe-pass';
+import { DeliveryOptions, Subscription, UpstreamSubscription } from './subscriptions.types';
+
+/** Thrown when a subscribe would exceed `MAX_UPSTREAM_SUBSCRIPTIONS` */
+export class UpstreamLimitError extends Error {
+  constructor(limit: number) {
+    super(`upstream subscription limit reached (${limit})`);
+  }
+}
+
+/**
+ * Thrown when the upstream subscribe fails for a subscription the client
+ * was already sent `pending` for, so it can be told which one failed.
+ */
+export class PendingSubscribeError extends Error {
+  constructor(
+    readonly subscriptionId: string,
+    cause: unknown,
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+  }
+}
+
+/**
+ * `signatureSubscribe` with `enableReceivedNotification` first reports that
+ * the transaction was received, on the same notification method; only the
+ * confirmation that follows ends the subscription.
+ */
+function isReceivedSignature(result: unknown): boolean {
+  return (result as { value?: unknown } | null)?.value === 'receivedSignature';
+}
+
+/** Helius sub IDs are only unique per upstream connection */
+function routeKey(connection: number, heliusSubId: number): string {
+  return `${connection}:${heliusSubId}`;
+}
 
 /**
  * Core subscription manager that bridges client requests to upstream Helius
  * WebSocket subscriptions.
  *
  * Responsibilities:
- * - Creating upstream subscriptions on behalf of clients and tracking the
- *   mapping between proxy IDs (sent to clients) and Helius IDs (upstream).
- * - Routing incoming upstream notifications to the correct client connection.
- * - Re-subscribing all active subscriptions after an upstream reconnect.
+ * - Sharing one reference-counted upstream subscription between all client
+ *   subscriptions with the same canonical `(method, params)` key.
+ * - Tracking the mapping between proxy IDs (sent to clients) and Helius IDs
+ *   (upstream).
+ * - Fanning incoming upstream notifications out to every attached client,
+ *   and keeping the latest one per key so a client joining a live upstream
+ *   subscription gets it as a snapshot right away.
+ * - Re-subscribing the subscriptions placed on an upstream connection after
+ *   that connection reconnects.
+ * - With a cluster bus, holding the upstream subscription only when this
+ *   instance is the key's leader, and otherwise fanning out notifications
+ *   relayed by the leader (see {@link ClusterService}).
  * - Implementing a grace-period idle cleanup so that briefly-disconnected
- *   clients don't lose their subscriptions.
+ *   clients don't lose their subscriptions, and resume tokens that let a
+ *   reconnecting client reclaim them under their original proxy IDs.
  */
 @Injectable()
 export class SubscriptionsService implements OnModuleDestroy {
   private readonly logger = new Logger(SubscriptionsService.name);
 
-  /** connectionId → subscription (one subscription per connection) */
+  /** proxySubId → client subscription */
   private readonly subs = new Map<string, Subscription>();
-  /** helius sub ID → connectionId (for notification dispatch) */
-  private readonly heliusIdToConn = new Map<number, string>();
+  /** connectionId → proxy sub IDs owned by that connection */
+  private readonly connSubs = new Map<string, Set<string>>();
+  /** canonical key → shared upstream subscription */
+  private readonly upstreams = new Map<string, UpstreamSubscription>();
+  /** `connection:heliusSubId` → canonical key (for notification dispatch) */
+  private readonly heliusIdToKey = new Map<string, string>();
+  /** resume token → connectionId */
+  private readonly sessions = new Map<string, string>();
+  /** connectionId → resume token */
+  private readonly connTokens = new Map<string, string>();
+  /** pool index → re-subscribe pass running after that connection reconnected */
+  private readonly passes = new Map<number, ResubscribePass<UpstreamSubscription>>();
+  /** canonical key → latest notification, for snapshots */
+  private readonly snapshots: SnapshotCache;
+  /** Upstream subscriptions placed on a pool connection, i.e. held upstream by this instance */
+  private placed = 0;
+  private nextRpcSubId = 1;
 
   private readonly idleTimeoutMs: number;
+  private readonly resumeBufferSize: number;
+  private readonly maxUpstreamSubscriptions: number;
+  private readonly resubscribeOptions: ResubscribePassOptions;
 
   constructor(
     private readonly upstream: UpstreamService,
     private readonly clients: ClientConnectionService,
+    private readonly methods: MethodRegistry,
+    private readonly metrics: MetricsService,
+    private readonly cluster: ClusterService,
     private readonly config: ConfigService,
   ) {
     this.idleTimeoutMs = this.config.get<number>('IDLE_TIMEOUT_MS', 300000);
+    this.resumeBufferSize = this.config.get<number>('RESUME_BUFFER_SIZE', 100);
+    this.maxUpstreamSubscriptions = this.config.get<number>('MAX_UPSTREAM_SUBSCRIPTIONS', 5000);
+    this.resubscribeOptions = {
+      concurrency: Math.max(1, this.config.get<number>('RESUBSCRIBE_CONCURRENCY', 10)),
+      ratePerSec: this.config.get<number>('RESUBSCRIBE_RATE_PER_SEC', 50),
+    };
+    this.snapshots = new SnapshotCache(this.config.get<number>('SNAPSHOT_CACHE_SIZE', 10000));
   }
 
   onModuleDestroy() {
@@ -53,252 +124,1118 @@ export class SubscriptionsService implements OnModuleDestroy {
         clearTimeout(sub.unsubscribeTimer);
       }
     }
+    for (const upstream of this.upstreams.values()) {
+      if (upstream.retryTimer) clearTimeout(upstream.retryTimer);
+    }
+    for (const pass of this.passes.values()) pass.cancel();
   }
 
   /**
    * Subscribe a client connection to an upstream Helius method.
    *
-   * If the connection already owns a subscription, the old one is torn down
-   * first (one subscription per connection). A new proxy subscription ID is
-   * generated, the RPC request is sent upstream, and once Helius responds
-   * the mapping is recorded for future notification dispatch.
+   * A connection may own any number of subscriptions. A new proxy
+   * subscription ID is generated and attached to the upstream subscription
+   * for the same canonical key, which is opened first if no other client
+   * holds it. Resolves once the upstream subscription is live. If its
+   * upstream connection is down, the subscribe waits for it to reconnect
+   * (up to `UPSTREAM_QUEUE_TIMEOUT_MS`) and the client is sent `pending`
+   * right away.
+   *
+   * @throws {UpstreamLimitError} If opening a new upstream subscription
+   *         would exceed `MAX_UPSTREAM_SUBSCRIPTIONS`. Only subscriptions
+   *         this instance holds upstream count; those it follows over the
+   *         cluster bus don't.
+   * @throws {PendingSubscribeError} If the upstream subscribe fails after
+   *         the client was sent `pending`; other failures are rethrown as is.
    *
    * @param connectionId - UUID of the client connection.
+   * @param network - Solana network to subscribe on.
    * @param method - Solana subscription method (e.g. `accountSubscribe`).
    * @param params - Parameters for the subscription RPC call.
-   * @returns The proxy subscription ID to send back to the client.
+   * @param jsonRpc - Whether the client speaks JSON-RPC 2.0 and expects
+   *                  numeric subscription IDs in notifications.
+   * @param delivery - Proxy-side filter, field projection and throttle for
+   *                   this client subscription only.
+   * @returns The new subscription; its proxy ID (or numeric `rpcSubId` for
+   *          JSON-RPC clients) is sent back to the client.
    */
   async subscribe(
     connectionId: string,
+    network: string,
     method: string,
     params: unknown[],
-  ): Promise<string> {
-    // Tear down existing subscription for this connection
-    const existing = this.subs.get(connectionId);
-    if (existing) {
-      this.teardown(existing);
+    jsonRpc = false,
+    delivery: DeliveryOptions = {},
+  ): Promise<Subscription> {
+    const key = canonicalKey(method, params, network);
+    let upstream = this.upstreams.get(key);
+    if (!upstream) {
+      if (this.maxUpstreamSubscriptions > 0 && this.placed >= this.maxUpstreamSubscriptions) {
+        throw new UpstreamLimitError(this.maxUpstreamSubscriptions);
+      }
+      upstream = this.openUpstream(key, network, method, params);
+    } else if (upstream.leader && upstream.heliusSubId == null && !upstream.pendingPromise) {
+      // A previous re-subscribe failed — retry now on behalf of the new subscriber
+      void this.resubscribe(upstream);
     }
 
     const proxySubId = `sub_${randomUUID().slice(0, 12)}`;
 
     const sub: Subscription = {
       proxySubId,
+      rpcSubId: this.nextRpcSubId++,
+      jsonRpc,
       connectionId,
+      key,
+      network,
       method,
       params,
-      heliusSubId: null,
-      pendingPromise: null,
-      cancelled: false,
       unsubscribeTimer: null,
+      removalAt: 0,
+      unsubscribed: false,
+      buffered: [],
+      completed: false,
+      filter: delivery.filter ? new NotificationFilter(delivery.filter) : null,
+      fields: delivery.fields ?? null,
+      throttle: null,
+      deliver: delivery.deliver ?? null,
     };
-    this.subs.set(connectionId, sub);
+    if (delivery.throttle) {
+      sub.throttle = new NotificationThrottle(
+        delivery.throttle,
+        (m, result) => this.sendNotification(sub, m, result),
+        () => this.metrics.clientMessagesDropped.inc({ reason: 'throttled' }),
+      );
+    }
+    upstream.subscribers.add(proxySubId);
+    this.track(sub);
 
-    // Send subscribe upstream
-    const promise = this.upstream
-      .sendRequest(method, params)
-      .then((result) => {
-        const heliusSubId = result as number;
-        if (sub.cancelled) {
-          this.logger.log(
-            `Subscribe resolved but was cancelled, sending immediate unsubscribe: ${method} → ${heliusSubId}`,
-          );
-          const unsubMethod = UNSUB_METHOD[method];
-          if (unsubMethod) {
-            this.upstream
-              .sendRequest(unsubMethod, [heliusSubId])
-              .catch((err) =>
-                this.logger.warn(`Cleanup unsubscribe failed: ${err}`),
-              );
-          }
-          return heliusSubId;
-        }
-        sub.heliusSubId = heliusSubId;
-        sub.pendingPromise = null;
-        this.heliusIdToConn.set(heliusSubId, connectionId);
-        this.logger.log(`Subscribed upstream: ${method} → helius id ${heliusSubId}`);
-        return heliusSubId;
-      })
-      .catch((err) => {
-        this.logger.error(`Upstream subscribe failed: ${err.message}`);
-        sub.pendingPromise = null;
-        this.subs.delete(connectionId);
-        throw err;
-      });
+    const acked =
+      upstream.pendingPromise !== null &&
+      upstream.connection !== null &&
+      !jsonRpc &&
+      !sub.deliver &&
+      !this.upstream.isConnectionOpen(upstream.connection);
+    if (acked) {
+      const pending: ServerPendingMessage = { type: 'pending', subscriptionId: proxySubId, method };
+      this.clients.send(connectionId, pending);
+    }
 
-    sub.pendingPromise = promise;
-    await promise;
-    return proxySubId;
+    if (upstream.pendingPromise) {
+      try {
+        await upstream.pendingPromise;
+      } catch (err) {
+        this.detach(sub);
+        throw acked ? new PendingSubscribeError(proxySubId, err) : err;
+      }
+    }
+    return sub;
   }
 
   /**
-   * Unsubscribe the subscription owned by a connection.
+   * Unsubscribe a single subscription owned by a connection.
    *
-   * Does not tear down the upstream subscription immediately — instead
+   * Does not detach from the upstream subscription immediately — instead
    * schedules removal after the idle grace period so the slot can be
    * reclaimed if the client reconnects quickly.
    *
-   * @returns `true` if the connection had a subscription that was scheduled for removal.
+   * @param connectionId - UUID of the client connection.
+   * @param proxySubId - Proxy subscription ID previously returned by {@link subscribe}.
+   * @returns `true` if the connection owned the subscription and it was scheduled for removal.
    */
-  unsubscribe(connectionId: string): boolean {
-    const sub = this.subs.get(connectionId);
-    if (!sub) return false;
+  unsubscribe(connectionId: string, proxySubId: string): boolean {
+    const sub = this.subs.get(proxySubId);
+    if (!sub || sub.connectionId !== connectionId || sub.unsubscribed) {
+      return false;
+    }
 
-    // Schedule upstream teardown after grace period
+    // Schedule detach after grace period
+    sub.unsubscribed = true;
     this.scheduleRemoval(sub);
     return true;
   }
 
+  /** Number of live (not unsubscribed) subscriptions owned by a connection. */
+  subscriptionCount(connectionId: string): number {
+    let count = 0;
+    for (const proxySubId of this.connSubs.get(connectionId) ?? []) {
+      if (this.subs.get(proxySubId)?.unsubscribed === false) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Resolve the numeric subscription ID a JSON-RPC client passes to a
+   * `*Unsubscribe` request into the proxy sub ID.
+   *
+   * @returns The proxy sub ID, or `undefined` if the connection owns no
+   *          subscription with that ID under the matching subscribe method.
+   */
+  resolveRpcSubscription(
+    connectionId: string,
+    unsubscribeMethod: string,
+    rpcSubId: number,
+  ): string | undefined {
+    for (const proxySubId of this.connSubs.get(connectionId) ?? []) {
+      const sub = this.subs.get(proxySubId);
+      if (sub?.rpcSubId === rpcSubId && this.methods.get(sub.method)?.unsubscribe === unsubscribeMethod) {
+        return proxySubId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Wait for the next notification on a subscription without a client
+   * socket, for HTTP long-polls.
+   *
+   * Attaches an in-process subscriber to the shared upstream subscription
+   * (opening it if needed, so concurrent waiters share one), and detaches it
+   * once a notification arrives, the timeout passes, or `signal` aborts.
+   * One-shot methods clean up after themselves when they complete.
+   *
+   * @throws {UpstreamLimitError} If opening the upstream subscription would
+   *         exceed `MAX_UPSTREAM_SUBSCRIPTIONS`, or the upstream subscribe error.
+   * @param network - Solana network to subscribe on.
+   * @returns The notification `result`, or `null` on timeout or abort.
+   */
+  async waitForNotification(
+    network: string,
+    method: string,
+    params: unknown[],
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), timeoutMs);
+      signal?.addEventListener('abort', () => resolve(null), { once: true });
+    });
+    let notified!: (result: unknown) => void;
+    const notification = new Promise<unknown>((resolve) => (notified = resolve));
+
+    const subscribing = this.subscribe(`http:${randomUUID()}`, network, method, params, false, {
+      deliver: (_method, result) => notified(result),
+    });
+    try {
+      const sub = await Promise.race([subscribing, deadline]);
+      if (!sub) {
+        // Gave up while the upstream subscribe was still in flight
+        subscribing.then((late) => this.detachWaiter(late), () => undefined);
+        return null;
+      }
+      const result = await Promise.race([notification, deadline]);
+      this.detachWaiter(sub);
+      return result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Issue a resume token for a newly connected client.
+   *
+   * The token outlives the connection for as long as the connection still
+   * owns subscriptions, so a reconnecting client can present it to
+   * {@link resume}.
+   */
+  openSession(connectionId: string): string {
+    const resumeToken = randomUUID();
+    this.sessions.set(resumeToken, connectionId);
+    this.connTokens.set(connectionId, resumeToken);
+    return resumeToken;
+  }
+
+  /**
+   * Re-attach the surviving subscriptions of a disconnected session to a new
+   * connection.
+   *
+   * Subscriptions still in their disconnect grace period have their removal
+   * timers cancelled and keep their proxy IDs. Subscriptions the client
+   * explicitly unsubscribed are left to expire, as are those the new
+   * connection's policy doesn't allow: methods outside its `allowedMethods`,
+   * and any beyond its `maxSubscriptions`. The resume token is single-use;
+   * the new connection keeps the token issued to it on connect.
+   *
+   * @param connectionId - UUID of the new client connection.
+   * @param resumeToken - Token issued to the previous connection.
+   * @returns The resumed subscriptions, or `null` if the token is unknown,
+   *          expired, belongs to a connection that is still open, or was
+   *          issued on another Solana network.
+   */
+  resume(connectionId: string, resumeToken: string): Subscription[] | null {
+    const previousId = this.sessions.get(resumeToken);
+    if (!previousId || previousId === connectionId || this.clients.has(previousId)) {
+      return null;
+    }
+    const ids = [...(this.connSubs.get(previousId) ?? [])];
+    const network = this.clients.getNetwork(connectionId);
+    if (ids.some((id) => this.subs.get(id)?.network !== network)) return null;
+    this.closeSession(previousId);
+
+    const policy = this.clients.getPolicy(connectionId);
+    let count = this.subscriptionCount(connectionId);
+    let refused = 0;
+    const resumed: Subscription[] = [];
+    for (const proxySubId of ids) {
+      const sub = this.subs.get(proxySubId);
+      if (!sub || sub.unsubscribed) continue;
+      if (
+        (policy?.allowedMethods && !policy.allowedMethods.includes(sub.method)) ||
+        (policy?.maxSubscriptions != null && count >= policy.maxSubscriptions)
+      ) {
+        refused++;
+        continue;
+      }
+      count++;
+
+      if (sub.unsubscribeTimer) {
+        clearTimeout(sub.unsubscribeTimer);
+        sub.unsubscribeTimer = null;
+      }
+      this.untrack(sub);
+      sub.connectionId = connectionId;
+      this.track(sub);
+      resumed.push(sub);
+    }
+
+    this.logger.log(
+      `Resumed ${resumed.length} subscriptions: ${previousId} → ${connectionId}` +
+        (refused > 0 ? ` (${refused} not allowed by the new connection's policy)` : ''),
+    );
+    return resumed;
+  }
+
+  /**
+   * Send notifications buffered while a resumed subscription's client was
+   * away, in arrival order, then clear the buffer. A one-shot subscription
+   * that completed meanwhile is dropped once its result is sent.
+   */
+  replayBuffered(sub: Subscription) {
+    const buffered = sub.buffered;
+    sub.buffered = [];
+    for (const n of buffered) {
+      this.sendNotification(sub, n.method, n.result);
+    }
+    if (sub.completed) this.untrack(sub);
+  }
+
+  /**
+   * Send a new subscription the latest notification already received for
+   * its key, as a `snapshot` frame with the notification's slot and age, so
+   * the client has current state without waiting for the next change.
+   *
+   * Only state methods (`MethodDefinition.snapshot`) have snapshots, and
+   * only subscriptions that joined a live upstream subscription get one:
+   * snapshots are dropped when their upstream connection drops or the
+   * upstream subscription ends. The subscription's filter and field
+   * projection apply; its throttle does not. JSON-RPC clients and
+   * in-process waiters get no snapshot.
+   *
+   * @returns Whether a snapshot was sent.
+   */
+  sendSnapshot(sub: Subscription): boolean {
+    if (sub.jsonRpc || sub.deliver || sub.unsubscribed) return false;
+    if (!this.methods.get(sub.method)?.snapshot) return false;
+    const upstream = this.upstreams.get(sub.key);
+    const snapshot = upstream && !upstream.pendingPromise ? this.snapshots.get(sub.key) : undefined;
+    if (!snapshot) {
+      this.metrics.snapshotLookups.inc({ result: 'miss' });
+      return false;
+    }
+    if (sub.filter && !sub.filter.accepts(snapshot.result)) {
+      this.metrics.snapshotLookups.inc({ result: 'filtered' });
+      return false;
+    }
+    this.metrics.snapshotLookups.inc({ result: 'hit' });
+    const frame: ServerSnapshotMessage = {
+      type: 'snapshot',
+      subscriptionId: sub.proxySubId,
+      method: snapshot.method,
+      result: sub.fields ? projectFields(snapshot.result, sub.fields) : snapshot.result,
+      slot: snapshot.slot,
+      ageMs: Date.now() - snapshot.receivedAt,
+    };
+    this.clients.send(sub.connectionId, frame, sub.proxySubId);
+    return true;
+  }
+
   /**
    * Handle a client WebSocket disconnection.
    *
-   * Looks up the subscription owned by this connection and schedules it
-   * for removal after the idle grace period.
+   * Schedules every subscription owned by this connection for removal
+   * after the idle grace period. The connection's resume token stays valid
+   * until then, or is dropped right away if it owns no subscriptions.
    *
    * @param connectionId - UUID of the disconnected client.
    */
   handleDisconnect(connectionId: string) {
-    const sub = this.subs.get(connectionId);
-    if (!sub) return;
+    const ids = this.connSubs.get(connectionId);
+    if (!ids) {
+      this.closeSession(connectionId);
+      return;
+    }
 
-    this.scheduleRemoval(sub);
+    for (const proxySubId of ids) {
+      const sub = this.subs.get(proxySubId);
+      if (sub && !sub.unsubscribeTimer) {
+        this.scheduleRemoval(sub);
+      }
+    }
   }
 
   /**
-   * Dispatch an upstream subscription notification to the owning client.
+   * Fan an upstream subscription notification out to every attached client.
    *
    * Listens for `upstream.notification` events emitted by {@link UpstreamService}.
-   * Maps the Helius subscription ID back to the connection, then forwards the
-   * notification payload to the client, replacing the Helius ID with the
-   * proxy ID so the client sees a stable identifier.
+   * Maps the upstream connection and Helius subscription ID back to the
+   * shared upstream subscription, relays the notification to the other
+   * instances when clustered, and dispatches it locally.
    */
   @OnEvent('upstream.notification')
-  handleNotification(msg: { method: string; params: { subscription: number; result: unknown } }) {
+  handleNotification(
+    msg: { method: string; params: { subscription: number; result: unknown } },
+    connection = 0,
+  ) {
     const heliusSubId = msg.params?.subscription;
     if (heliusSubId == null) return;
 
-    const connectionId = this.heliusIdToConn.get(heliusSubId);
-    if (!connectionId) return;
+    const key = this.heliusIdToKey.get(routeKey(connection, heliusSubId));
+    if (!key) return;
 
-    const sub = this.subs.get(connectionId);
-    if (!sub) return;
+    const upstream = this.upstreams.get(key);
+    if (!upstream) return;
 
-    this.clients.send(connectionId, {
-      jsonrpc: '2.0',
-      method: msg.method,
-      params: {
-        subscription: sub.proxySubId,
-        result: msg.params.result,
-      },
-    });
+    this.cluster.publish(key, msg.method, msg.params.result);
+    this.dispatch(upstream, msg.method, msg.params.result);
   }
 
   /**
-   * Re-subscribe all active subscriptions after the upstream WebSocket reconnects.
+   * Dispatch a notification the key's leader relayed over the cluster bus.
    *
-   * Listens for `upstream.reconnected` events. Clears the old Helius-to-connection
-   * map (stale after reconnect), then iterates every tracked subscription:
-   * - Subscriptions pending removal are torn down immediately.
-   * - Active subscriptions are re-sent upstream and their ID mappings refreshed.
+   * Listens for `cluster.notification` events emitted by {@link ClusterService}.
+   */
+  @OnEvent('cluster.notification')
+  handleClusterNotification(key: string, method: string, result: unknown) {
+    const upstream = this.upstreams.get(key);
+    if (!upstream || upstream.leader) return;
+    this.dispatch(upstream, method, result);
+  }
+
+  /**
+   * Take over the upstream subscription for a key after this instance was
+   * elected its leader (the previous leader died or handed it off). Does
+   * nothing while the key is still being joined or holds a Helius ID: the
+   * join subscribes itself once elected, and a second subscribe would
+   * deliver every notification twice.
+   *
+   * Listens for `cluster.elected` events emitted by {@link ClusterService}.
+   */
+  @OnEvent('cluster.elected')
+  handleElected(key: string) {
+    const upstream = this.upstreams.get(key);
+    if (!upstream) {
+      this.cluster.leave(key);
+      return;
+    }
+    if (upstream.leader || upstream.pendingPromise || upstream.heliusSubId != null) return;
+    upstream.leader = true;
+    void this.resubscribe(upstream);
+  }
+
+  /**
+   * Give up the upstream subscription for a key, and its pool connection
+   * slot, after another instance took over its lease; notifications now
+   * arrive over the cluster bus.
+   *
+   * Listens for `cluster.demoted` events emitted by {@link ClusterService}.
+   */
+  @OnEvent('cluster.demoted')
+  handleDemoted(key: string) {
+    const upstream = this.upstreams.get(key);
+    if (!upstream?.leader) return;
+    upstream.leader = false;
+    if (upstream.retryTimer) {
+      clearTimeout(upstream.retryTimer);
+      upstream.retryTimer = null;
+    }
+    void this.unsubscribeUpstream(upstream);
+    this.releaseConnection(upstream);
+  }
+
+  /**
+   * Tell clients with subscriptions placed on a pool connection that the
+   * connection dropped, so they know notifications may be missed until it
+   * is restored, and stop any re-subscribe pass still running on it.
+   * Snapshots of its subscriptions are dropped, as they may go stale.
    *
-   * This ensures clients experience no interruption across upstream reconnects.
+   * Listens for `upstream.disconnected` events.
+   */
+  @OnEvent('upstream.disconnected')
+  handleUpstreamDisconnected(connection = 0) {
+    this.passes.get(connection)?.cancel();
+    this.dropSnapshots(connection);
+    for (const connectionId of this.statusRecipients(connection)) {
+      this.clients.send(connectionId, { type: 'upstream_disconnected' });
+    }
+  }
+
+  /**
+   * Re-subscribe the upstream subscriptions placed on a pool connection after
+   * that connection reconnects.
+   *
+   * Listens for `upstream.reconnected` events. Subscriptions on other
+   * connections are untouched. After a drop, affected clients are first sent
+   * `upstream_restored` with the outage duration so they can refetch state
+   * for the gap. For each shared upstream subscription on the reconnected
+   * socket, the stale Helius-to-key mapping and snapshot are dropped, then:
+   * - Explicitly unsubscribed client subscriptions are detached immediately,
+   *   and upstream subscriptions left without subscribers are dropped.
+   *   Subscriptions of disconnected clients are kept so they can be resumed.
+   * - Remaining upstream subscriptions are re-sent by a
+   *   {@link ResubscribePass}, `RESUBSCRIBE_CONCURRENCY` at a time and at
+   *   most `RESUBSCRIBE_RATE_PER_SEC`, pausing while Helius rate-limits us.
+   *   Other failures are reported and retried as in {@link resubscribe}.
+   *   Subscribes that were queued or in flight when the socket dropped are
+   *   skipped: the connection sends those itself.
+   *
+   * A pass still running from an earlier reconnect of the same socket is
+   * cancelled first; whatever it had not started is part of the new pass.
+   *
+   * @param connection - Pool index of the reconnected socket.
+   * @param outageMs - How long the socket was down, or `null` on first connect.
    */
   @OnEvent('upstream.reconnected')
-  async handleReconnected() {
-    this.logger.log('Re-subscribing after upstream reconnect…');
-    this.heliusIdToConn.clear();
+  async handleReconnected(connection = 0, outageMs: number | null = null) {
+    this.passes.get(connection)?.cancel();
+    this.dropSnapshots(connection);
+
+    if (outageMs != null) {
+      for (const connectionId of this.statusRecipients(connection)) {
+        this.clients.send(connectionId, { type: 'upstream_restored', outageMs });
+      }
+    }
+
+    const pending: UpstreamSubscription[] = [];
+    for (const upstream of [...this.upstreams.values()]) {
+      if (upstream.connection !== connection || !upstream.leader) continue;
+      if (upstream.pendingPromise) continue;
+      if (upstream.retryTimer) {
+        clearTimeout(upstream.retryTimer);
+        upstream.retryTimer = null;
+      }
+      if (upstream.heliusSubId != null) {
+        this.heliusIdToKey.delete(routeKey(connection, upstream.heliusSubId));
+      }
+
+      // Skip subs pending removal after an explicit unsubscribe
+      for (const proxySubId of [...upstream.subscribers]) {
+        const sub = this.subs.get(proxySubId);
+        if (sub?.unsubscribed && sub.unsubscribeTimer) {
+          clearTimeout(sub.unsubscribeTimer);
+          sub.unsubscribeTimer = null;
+          this.untrack(sub);
+          upstream.subscribers.delete(proxySubId);
+        }
+      }
+      if (upstream.subscribers.size === 0) {
+        // Nothing to unsubscribe on the fresh socket
+        this.upstreams.delete(upstream.key);
+        this.releaseConnection(upstream);
+        this.cluster.leave(upstream.key);
+        upstream.cancelled = true;
+        continue;
+      }
+
+      upstream.heliusSubId = null;
+      pending.push(upstream);
+    }
+    if (pending.length === 0) return;
+
+    this.logger.log(`Re-subscribing ${pending.length} subscriptions on connection ${connection}…`);
+    const pass: ResubscribePass<UpstreamSubscription> = new ResubscribePass(
+      pending,
+      (upstream) => this.resubscribeInPass(upstream, pass),
+      {
+        ...this.resubscribeOptions,
+        onProgress: () => this.metrics.resubscribeRemaining.set({ connection }, pass.remaining),
+      },
+    );
+    this.passes.set(connection, pass);
+    this.metrics.resubscribeRemaining.set({ connection }, pass.remaining);
+    await pass.run();
+
+    if (this.passes.get(connection) === pass) {
+      this.passes.delete(connection);
+      this.metrics.resubscribeRemaining.set({ connection }, 0);
+    }
+    this.logger.log(
+      `Re-subscribe pass on connection ${connection} ${pass.isCancelled ? 'cancelled' : 'finished'} ` +
+        `in ${Date.now() - pass.startedAt}ms: ${pass.completed} done, ${pass.failed} failed, ` +
+        `${pass.rateLimited} rate limited`,
+    );
+  }
+
+  get stats() {
+    return {
+      upstreamSubscriptions: this.upstreams.size,
+      clientSubscriptions: this.subs.size,
+      snapshots: this.snapshots.size,
+    };
+  }
+
+  /** Subscription counts of one Solana network, for `/health`. */
+  networkStats(network: string) {
+    let upstreamSubscriptions = 0;
+    let clientSubscriptions = 0;
+    for (const upstream of this.upstreams.values()) {
+      if (upstream.network !== network) continue;
+      upstreamSubscriptions++;
+      clientSubscriptions += upstream.subscribers.size;
+    }
+    return { upstreamSubscriptions, clientSubscriptions };
+  }
+
+  /** Progress of the re-subscribe passes in progress, for `/health`. */
+  get resubscribeStatus() {
+    return [...this.passes].map(([connection, pass]) => ({ connection, ...pass.status }));
+  }
+
+  /** Every upstream subscription with its client subscriptions, for the admin API. */
+  list() {
+    return [...this.upstreams.values()].map((upstream) => ({
+      key: upstream.key,
+      network: upstream.network,
+      method: upstream.method,
+      params: upstream.params,
+      connection: upstream.connection,
+      leader: upstream.leader,
+      heliusSubId: upstream.heliusSubId,
+      pending: upstream.pendingPromise !== null,
+      retryAttempt: upstream.retryAttempt,
+      subscriptions: [...upstream.subscribers].flatMap((proxySubId) => {
+        const sub = this.subs.get(proxySubId);
+        if (!sub) return [];
+        return [
+          {
+            subscriptionId: sub.proxySubId,
+            connectionId: sub.connectionId,
+            unsubscribed: sub.unsubscribed,
+            removalAt: sub.unsubscribeTimer ? sub.removalAt : null,
+          },
+        ];
+      }),
+    }));
+  }
 
-    for (const [connectionId, sub] of this.subs) {
-      // Skip subs pending removal
+  /**
+   * Tear down an upstream subscription and every client subscription
+   * attached to it right away, skipping the grace period. Connected
+   * clients are sent `unsubscribed` for their subscriptions.
+   *
+   * @param key - Canonical key of the upstream subscription.
+   * @returns `false` if there is no upstream subscription with that key.
+   */
+  forceTeardown(key: string): boolean {
+    const upstream = this.upstreams.get(key);
+    if (!upstream) return false;
+
+    for (const proxySubId of upstream.subscribers) {
+      const sub = this.subs.get(proxySubId);
+      if (!sub) continue;
       if (sub.unsubscribeTimer) {
         clearTimeout(sub.unsubscribeTimer);
         sub.unsubscribeTimer = null;
-        this.teardown(sub);
+      } else if (!sub.unsubscribed && !sub.jsonRpc && !sub.deliver) {
+        this.clients.send(sub.connectionId, { type: 'unsubscribed', subscriptionId: proxySubId });
+      }
+      this.untrack(sub);
+    }
+    upstream.subscribers.clear();
+    this.teardown(upstream);
+    this.logger.warn(`Force-tore down upstream subscription: ${upstream.method} (${key})`);
+    return true;
+  }
+
+  /**
+   * Deliver one notification to every client subscription of an upstream
+   * subscription.
+   *
+   * Replaces the Helius ID with each subscriber's own proxy ID so every
+   * client sees a stable identifier. Each subscription's filter and field
+   * projection are applied first, and its throttle, if any, conflates what
+   * is left to the latest notification per window, so subscribers to the
+   * same data can get it at different rates. Explicitly unsubscribed
+   * subscriptions are skipped; subscriptions whose client disconnected
+   * buffer the notification for replay on resume (bounded by
+   * `RESUME_BUFFER_SIZE`, oldest dropped first). Notifications of state
+   * methods are kept as the key's snapshot. One-shot subscriptions are
+   * cleaned up after their final notification (not a `receivedSignature`
+   * one) has been dispatched. The fan-out time is recorded per
+   * notification method.
+   */
+  private dispatch(upstream: UpstreamSubscription, method: string, notification: unknown) {
+    this.metrics.notifications.inc({ method });
+    const endTimer = this.metrics.fanoutDuration.startTimer({ method });
+    const def = this.methods.get(upstream.method);
+    if (def?.snapshot) this.snapshots.set(upstream.key, method, notification);
+
+    for (const proxySubId of upstream.subscribers) {
+      const sub = this.subs.get(proxySubId);
+      if (!sub || sub.unsubscribed) continue;
+      if (sub.filter && !sub.filter.accepts(notification)) continue;
+      const result = sub.fields ? projectFields(notification, sub.fields) : notification;
+
+      if (sub.unsubscribeTimer) {
+        if (this.resumeBufferSize <= 0) continue;
+        sub.buffered.push({ method, result });
+        if (sub.buffered.length > this.resumeBufferSize) sub.buffered.shift();
         continue;
       }
 
-      sub.heliusSubId = null;
+      if (sub.throttle) {
+        sub.throttle.push(method, result);
+      } else {
+        this.sendNotification(sub, method, result);
+      }
+    }
+    endTimer();
+
+    if (def?.oneShot && method === def.notification && !isReceivedSignature(notification)) {
+      this.complete(upstream);
+    }
+  }
+
+  private sendNotification(sub: Subscription, method: string, result: unknown) {
+    if (sub.deliver) {
+      sub.deliver(method, result);
+      return;
+    }
+    this.clients.send(
+      sub.connectionId,
+      {
+        jsonrpc: '2.0',
+        method,
+        params: {
+          subscription: sub.jsonRpc ? sub.rpcSubId : sub.proxySubId,
+          result,
+        },
+      },
+      sub.proxySubId,
+    );
+  }
+
+  /**
+   * Create and register a shared upstream subscription. Without a cluster
+   * bus the subscribe RPC is sent right away; otherwise the key is joined
+   * first and only a leader subscribes upstream. Either way it is placed on
+   * a pool connection only once it subscribes.
+   */
+  private openUpstream(
+    key: string,
+    network: string,
+    method: string,
+    params: unknown[],
+  ): UpstreamSubscription {
+    const upstream: UpstreamSubscription = {
+      key,
+      network,
+      method,
+      params,
+      connection: null,
+      leader: !this.cluster.enabled,
+      heliusSubId: null,
+      pendingPromise: null,
+      cancelled: false,
+      subscribers: new Set(),
+      retryTimer: null,
+      retryAttempt: 0,
+    };
+    this.upstreams.set(key, upstream);
+    // Subscribers await pendingPromise themselves and detach on failure
+    if (upstream.leader) {
+      this.requestUpstream(upstream).catch(() => undefined);
+      return upstream;
+    }
+    const promise: Promise<number | null> = this.joinCluster(upstream).finally(() => {
+      if (upstream.pendingPromise === promise) upstream.pendingPromise = null;
+    });
+    upstream.pendingPromise = promise;
+    promise.catch(() => undefined);
+    return upstream;
+  }
+
+  /**
+   * Join the cluster for an upstream subscription's key and, if elected
+   * leader, send the subscribe RPC.
+   *
+   * @returns The Helius ID, or `null` for a follower.
+   */
+  private async joinCluster(upstream: UpstreamSubscription): Promise<number | null> {
+    const leader = await this.cluster.join(upstream.key);
+    if (upstream.cancelled) {
+      this.leaveCluster(upstream.key);
+      return null;
+    }
+    if (!leader || !this.cluster.isLeader(upstream.key)) return null;
+    upstream.leader = true;
+    return this.requestUpstream(upstream);
+  }
+
+  /** Leave a key's cluster group unless it has been opened again since. */
+  private leaveCluster(key: string) {
+    if (!this.upstreams.has(key)) this.cluster.leave(key);
+  }
 
-      const promise = this.upstream
-        .sendRequest(sub.method, sub.params)
-        .then((result) => {
-          const heliusSubId = result as number;
-          sub.heliusSubId = heliusSubId;
-          sub.pendingPromise = null;
-          this.heliusIdToConn.set(heliusSubId, connectionId);
-          this.logger.log(`Re-subscribed: ${sub.method} → ${heliusSubId}`);
+  /**
+   * Send the subscribe RPC for an upstream subscription and record the
+   * returned Helius ID.
+   *
+   * The first request places the subscription on one of its network's
+   * pool connections. If the upstream subscription was cancelled, or this
+   * instance lost its cluster leadership, while the request was in-flight,
+   * the resolved Helius ID is unsubscribed immediately instead.
+   */
+  private requestUpstream(upstream: UpstreamSubscription): Promise<number> {
+    const { method } = upstream;
+    const connection = upstream.connection ?? this.placeConnection(upstream);
+    const promise: Promise<number> = this.upstream
+      .sendRequest(method, upstream.params, connection, true)
+      .then((result) => {
+        const heliusSubId = result as number;
+        if (upstream.pendingPromise === promise) upstream.pendingPromise = null;
+        if (upstream.cancelled || !upstream.leader) {
+          this.logger.log(
+            `Subscribe resolved but was cancelled, sending immediate unsubscribe: ${method} → ${heliusSubId}`,
+          );
+          if (upstream.cancelled) this.leaveCluster(upstream.key);
+          const unsubMethod = this.methods.get(method)?.unsubscribe;
+          if (unsubMethod) {
+            this.upstream
+              .sendRequest(unsubMethod, [heliusSubId], connection)
+              .catch((err) =>
+                this.logger.warn(`Cleanup unsubscribe failed: ${err}`),
+              );
+          }
           return heliusSubId;
-        })
-        .catch((err) => {
-          this.logger.error(`Re-subscribe failed for ${sub.method}: ${err}`);
-          sub.pendingPromise = null;
-          throw err;
+        }
+        upstream.heliusSubId = heliusSubId;
+        this.heliusIdToKey.set(routeKey(connection, heliusSubId), upstream.key);
+        this.logger.log(
+          `Subscribed upstream #${connection}: ${method} → helius id ${heliusSubId} (${upstream.subscribers.size} subscribers)`,
+        );
+        return heliusSubId;
+      })
+      .catch((err) => {
+        this.logger.error(`Upstream subscribe failed for ${method}: ${err.message ?? err}`);
+        if (upstream.pendingPromise === promise) upstream.pendingPromise = null;
+        if (upstream.cancelled) this.leaveCluster(upstream.key);
+        throw err;
+      });
+
+    upstream.pendingPromise = promise;
+    return promise;
+  }
+
+  /**
+   * Re-send the subscribe RPC for an existing upstream subscription.
+   *
+   * On failure every live subscriber is sent `subscription_failed` and the
+   * request is retried with exponential backoff (1 s doubling to 30 s) for
+   * as long as the upstream subscription has subscribers. Retries wait for
+   * the pool connection to come back if it is down. Once a retried
+   * subscribe succeeds, subscribers are sent `subscription_restored`.
+   */
+  private async resubscribe(upstream: UpstreamSubscription) {
+    if (upstream.retryTimer) {
+      clearTimeout(upstream.retryTimer);
+      upstream.retryTimer = null;
+    }
+    try {
+      await this.requestUpstream(upstream);
+    } catch (err) {
+      this.resubscribeFailed(upstream, err);
+      return;
+    }
+    this.resubscribed(upstream);
+  }
+
+  /**
+   * Re-subscribe one upstream subscription as part of a
+   * {@link ResubscribePass}. Subscriptions that are gone, already live or
+   * already being subscribed are skipped. Rate-limit errors go back to the
+   * pass, which pauses and retries them; other failures are handled as in
+   * {@link resubscribe}.
+   */
+  private async resubscribeInPass(
+    upstream: UpstreamSubscription,
+    pass: ResubscribePass<UpstreamSubscription>,
+  ): Promise<ResubscribeOutcome> {
+    if (
+      upstream.cancelled ||
+      !upstream.leader ||
+      upstream.heliusSubId != null ||
+      upstream.pendingPromise ||
+      this.upstreams.get(upstream.key) !== upstream
+    ) {
+      return 'skipped';
+    }
+    let outcome: ResubscribeOutcome = 'ok';
+    try {
+      await this.requestUpstream(upstream);
+      this.resubscribed(upstream);
+    } catch (err) {
+      if (isRateLimitError(err) && !pass.isCancelled) {
+        outcome = 'rate_limited';
+      } else {
+        outcome = 'failed';
+        this.resubscribeFailed(upstream, err);
+      }
+    }
+    this.metrics.resubscribes.inc({ outcome });
+    return outcome;
+  }
+
+  /**
+   * Report a failed re-subscribe to every live subscriber with
+   * `subscription_failed` and schedule a retry with exponential backoff.
+   */
+  private resubscribeFailed(upstream: UpstreamSubscription, err: unknown) {
+    if (upstream.cancelled || !upstream.leader || this.upstreams.get(upstream.key) !== upstream) {
+      return;
+    }
+    const retryInMs = Math.min(1000 * 2 ** upstream.retryAttempt, 30_000);
+    upstream.retryAttempt++;
+    const reason = err instanceof Error ? err.message : String(err);
+    for (const sub of this.statusSubscribers(upstream)) {
+      this.clients.send(sub.connectionId, {
+        type: 'subscription_failed',
+        subscriptionId: sub.proxySubId,
+        reason,
+        retryInMs,
+      });
+    }
+    upstream.retryTimer = setTimeout(() => {
+      upstream.retryTimer = null;
+      // A reconnect re-subscribes everything placed on the connection
+      if (upstream.connection === null || !this.upstream.isConnectionOpen(upstream.connection)) return;
+      void this.resubscribe(upstream);
+    }, retryInMs);
+  }
+
+  /** Tell subscribers of a previously failing subscription that it is live again. */
+  private resubscribed(upstream: UpstreamSubscription) {
+    if (upstream.retryAttempt > 0 && !upstream.cancelled) {
+      upstream.retryAttempt = 0;
+      for (const sub of this.statusSubscribers(upstream)) {
+        this.clients.send(sub.connectionId, {
+          type: 'subscription_restored',
+          subscriptionId: sub.proxySubId,
         });
+      }
+    }
+  }
+
+  /**
+   * Client subscriptions of an upstream subscription that should receive
+   * status frames: still wanted, owned by a connected client, and not
+   * JSON-RPC (which has no frame for them) or an in-process waiter.
+   */
+  private statusSubscribers(upstream: UpstreamSubscription): Subscription[] {
+    const subs: Subscription[] = [];
+    for (const proxySubId of upstream.subscribers) {
+      const sub = this.subs.get(proxySubId);
+      if (sub && !sub.unsubscribed && !sub.unsubscribeTimer && !sub.jsonRpc && !sub.deliver) {
+        subs.push(sub);
+      }
+    }
+    return subs;
+  }
 
-      sub.pendingPromise = promise;
+  /** Connections with at least one status subscriber on a pool connection. */
+  private statusRecipients(connection: number): Set<string> {
+    const connectionIds = new Set<string>();
+    for (const upstream of this.upstreams.values()) {
+      if (upstream.connection !== connection || !upstream.leader) continue;
+      for (const sub of this.statusSubscribers(upstream)) connectionIds.add(sub.connectionId);
+    }
+    return connectionIds;
+  }
 
-      try {
-        await promise;
-      } catch {
-        // Already logged above
+  /** Drop the snapshots of the upstream subscriptions placed on a pool connection. */
+  private dropSnapshots(connection: number) {
+    for (const upstream of this.upstreams.values()) {
+      if (upstream.connection === connection && upstream.leader) this.snapshots.delete(upstream.key);
+    }
+  }
+
+  /** Detach an in-process subscription right away, unless it already completed. */
+  private detachWaiter(sub: Subscription) {
+    if (this.subs.get(sub.proxySubId) === sub) this.detach(sub);
+  }
+
+  /** Record a subscription in the proxy-ID and per-connection indexes. */
+  private track(sub: Subscription) {
+    this.subs.set(sub.proxySubId, sub);
+    let ids = this.connSubs.get(sub.connectionId);
+    if (!ids) {
+      ids = new Set();
+      this.connSubs.set(sub.connectionId, ids);
+    }
+    ids.add(sub.proxySubId);
+  }
+
+  /**
+   * Remove a subscription from the proxy-ID and per-connection indexes and
+   * discard anything its throttle holds. Drops the owning session once a
+   * disconnected connection has nothing left to resume.
+   */
+  private untrack(sub: Subscription) {
+    this.subs.delete(sub.proxySubId);
+    sub.throttle?.cancel();
+    const ids = this.connSubs.get(sub.connectionId);
+    if (ids) {
+      ids.delete(sub.proxySubId);
+      if (ids.size === 0) {
+        this.connSubs.delete(sub.connectionId);
+        if (!this.clients.has(sub.connectionId)) this.closeSession(sub.connectionId);
       }
     }
   }
 
-  get stats() {
-    return {
-      upstreamSubscriptions: this.subs.size,
-      clientSubscriptions: this.subs.size,
-    };
+  private closeSession(connectionId: string) {
+    const resumeToken = this.connTokens.get(connectionId);
+    if (!resumeToken) return;
+    this.connTokens.delete(connectionId);
+    this.sessions.delete(resumeToken);
   }
 
   /**
-   * Schedule a subscription for upstream teardown after the idle grace period.
+   * Schedule a client subscription for detach after the idle grace period.
    *
    * If the timer is already running (e.g. called twice for the same sub),
-   * it is reset. When the timer fires, {@link teardown} sends the
-   * unsubscribe RPC and removes all internal tracking state.
+   * it is reset. When the timer fires, {@link detach} releases the
+   * subscription's reference on the shared upstream subscription.
    */
   private scheduleRemoval(sub: Subscription) {
     if (sub.unsubscribeTimer) {
       clearTimeout(sub.unsubscribeTimer);
     }
+    sub.removalAt = Date.now() + this.idleTimeoutMs;
     sub.unsubscribeTimer = setTimeout(() => {
       sub.unsubscribeTimer = null;
-      this.teardown(sub);
+      this.detach(sub);
     }, this.idleTimeoutMs);
   }
 
   /**
-   * Immediately tear down a subscription.
+   * Immediately detach a client subscription from its upstream subscription.
    *
-   * Clears any pending removal timer, removes internal tracking state,
-   * and sends the corresponding unsubscribe RPC to Helius. If the
-   * subscribe request is still in-flight, marks the subscription as
-   * `cancelled` so the pending `.then()` handler cleans up instead.
+   * Clears any pending removal timer and removes internal tracking state.
+   * If this was the last subscriber, the upstream subscription is torn down.
    */
-  private async teardown(sub: Subscription) {
+  private detach(sub: Subscription) {
     if (sub.unsubscribeTimer) {
       clearTimeout(sub.unsubscribeTimer);
       sub.unsubscribeTimer = null;
     }
 
-    this.subs.delete(sub.connectionId);
+    this.untrack(sub);
+
+    const upstream = this.upstreams.get(sub.key);
+    if (!upstream || !upstream.subscribers.delete(sub.proxySubId)) return;
+    if (upstream.subscribers.size === 0) {
+      this.teardown(upstream);
+    }
+  }
+
+  /**
+   * Drop a one-shot upstream subscription that Helius has already ended,
+   * along with every client subscription attached to it. No unsubscribe RPC
+   * is sent. Subscriptions of disconnected clients that buffered the result
+   * are kept, marked `completed`, until their grace period ends, so a
+   * resuming client still receives it.
+   */
+  private complete(upstream: UpstreamSubscription) {
+    this.upstreams.delete(upstream.key);
+    this.snapshots.delete(upstream.key);
+    this.cluster.leave(upstream.key);
+    if (upstream.retryTimer) clearTimeout(upstream.retryTimer);
+    if (upstream.heliusSubId != null && upstream.connection !== null) {
+      this.heliusIdToKey.delete(routeKey(upstream.connection, upstream.heliusSubId));
+    }
+    this.releaseConnection(upstream);
+    for (const proxySubId of upstream.subscribers) {
+      const sub = this.subs.get(proxySubId);
+      if (!sub) continue;
+      if (sub.unsubscribeTimer && !sub.unsubscribed && sub.buffered.length > 0) {
+        // Its removal timer detaches it; the upstream is gone by then
+        sub.completed = true;
+        continue;
+      }
+      if (sub.unsubscribeTimer) {
+        clearTimeout(sub.unsubscribeTimer);
+        sub.unsubscribeTimer = null;
+      }
+      this.untrack(sub);
+    }
+    upstream.subscribers.clear();
+    this.logger.log(`One-shot subscription completed: ${upstream.method}`);
+  }
+
+  /**
+   * Immediately tear down an upstream subscription.
+   *
+   * Removes internal tracking state, leaves the key's cluster group, and
+   * sends the corresponding unsubscribe RPC to Helius. If a cluster join or
+   * the subscribe request is still in-flight, marks the subscription as
+   * `cancelled` so the pending handler cleans up instead.
+   */
+  private teardown(upstream: UpstreamSubscription) {
+    this.upstreams.delete(upstream.key);
+    this.snapshots.delete(upstream.key);
+    if (upstream.retryTimer) clearTimeout(upstream.retryTimer);
 
     // If still pending, mark cancelled — .then() will clean up
-    if (sub.pendingPromise) {
-      sub.cancelled = true;
+    if (upstream.pendingPromise) {
+      upstream.cancelled = true;
+      this.releaseConnection(upstream);
       return;
     }
 
-    const unsubMethod = UNSUB_METHOD[sub.method];
-    if (sub.heliusSubId != null && unsubMethod) {
-      this.heliusIdToConn.delete(sub.heliusSubId);
+    this.cluster.leave(upstream.key);
+    void this.unsubscribeUpstream(upstream);
+    this.releaseConnection(upstream);
+  }
+
+  /** Send the Helius unsubscribe for an upstream subscription's current ID, if any. */
+  private async unsubscribeUpstream(upstream: UpstreamSubscription) {
+    const unsubMethod = this.methods.get(upstream.method)?.unsubscribe;
+    const { heliusSubId, connection } = upstream;
+    upstream.heliusSubId = null;
+    if (heliusSubId != null && connection !== null && unsubMethod) {
+      this.heliusIdToKey.delete(routeKey(connection, heliusSubId));
       try {
-        await this.upstream.sendRequest(unsubMethod, [sub.heliusSubId]);
-        this.logger.log(`Unsubscribed upstream: ${unsubMethod}(${sub.heliusSubId})`);
+        await this.upstream.sendRequest(unsubMethod, [heliusSubId], connection);
+        this.logger.log(`Unsubscribed upstream: ${unsubMethod}(${heliusSubId})`);
       } catch (err) {
         this.logger.warn(`Upstream unsubscribe failed: ${err}`);
       }
     }
   }
+
+  /** Place an upstream subscription on one of its network's pool connections. */
+  private placeConnection(upstream: UpstreamSubscription): number {
+    upstream.connection = this.upstream.acquire(upstream.key, upstream.network);
+    this.placed++;
+    return upstream.connection;
+  }
+
+  /** Give back the pool connection an upstream subscription is placed on, if any. */
+  private releaseConnection(upstream: UpstreamSubscription) {
+    if (upstream.connection === null) return;
+    this.upstream.release(upstream.connection);
+    upstream.connection = null;
+    this.placed--;
+  }
 }
@@ -1,19 +1,190 @@
-/** A single subscription: one client sub ↔ one upstream sub */
-export interface Subscription {
-  /** Proxy-generated subscription ID sent to the client */
-  proxySubId: string;
-  /** The connection that owns this subscription */
-  connectionId: string;
+import { NotificationFilter, NotificationFilterSpec } from './notification-filter';
+import { NotificationThrottle, ThrottleSpec } from './notification-throttle';
+import { FrameEncoding } from './frame-encoding';
+
+/** What to do with notifications for a client that can't keep up */
+export type SlowClientPolicy = 'drop-oldest' | 'conflate' | 'disconnect';
+
+/**
+ * What {@link ClientConnectionService} needs from a client transport: the
+ * subset of a `ws` WebSocket that other transports (SSE) also implement.
+ */
+export interface ClientSocket {
+  /** One of the WebSocket ready states; only `OPEN` (1) accepts frames */
+  readonly readyState: number;
+  /** Bytes written but not yet flushed to the network */
+  readonly bufferedAmount: number;
+  send(frame: string | Uint8Array, cb?: (err?: Error | null) => void): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Protocol a client's requests use: the proxy's own `{ action }` messages,
+ * or standard Solana JSON-RPC 2.0
+ */
+export type ClientProtocol = 'proxy' | 'json-rpc';
+
+/** Bookkeeping kept for each client connection, shown by the admin API */
+export interface ConnectionInfo {
+  /** How the client is connected */
+  transport: 'ws' | 'sse';
+  /** Solana network the client's subscriptions are for */
+  network: string;
+  /** Wire encoding of the connection's frames */
+  encoding: FrameEncoding;
+  /** Protocol of the client's first request; `null` until it sends one */
+  protocol: ClientProtocol | null;
+  /** Client address (from `CLIENT_IP_HEADER` or the socket) */
+  remoteAddress: string;
+  /** `Origin` header of the upgrade request */
+  origin: string;
+  /** Epoch ms the socket connected */
+  connectedAt: number;
+  messagesReceived: number;
+  messagesSent: number;
+}
+
+/** What a transport knows about a connection when it registers it */
+export type ConnectionDetails = Omit<
+  ConnectionInfo,
+  'protocol' | 'connectedAt' | 'messagesReceived' | 'messagesSent'
+>;
+
+/** A serialized frame waiting in a connection's outbound queue */
+export interface QueuedFrame {
+  frame: string | Uint8Array;
+  /** Proxy sub ID for notifications; control frames are never dropped */
+  subscription?: string;
+}
+
+/** Frames held back while a client socket's send buffer is over its limit */
+export interface OutboundQueue {
+  frames: QueuedFrame[];
+  /** Latest queued notification per subscription (for conflation) */
+  bySubscription: Map<string, QueuedFrame>;
+  /** Notifications dropped since the client was last told */
+  dropped: number;
+  /** When the client was last sent `notifications_dropped` */
+  noticeAt: number;
+  /** Pending `notifications_dropped` send, while the last one is too recent */
+  noticeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Registry entry describing one pubsub method the proxy forwards */
+export interface MethodDefinition {
+  /** Subscribe method, e.g. "accountSubscribe" */
+  subscribe: string;
+  /** Matching unsubscribe method, e.g. "accountUnsubscribe" */
+  unsubscribe: string;
+  /** Method name of the notifications it produces, e.g. "accountNotification" */
+  notification: string;
+  /** Structural check of the subscribe params */
+  validateParams: (params: unknown[]) => boolean;
+  /** Whether Helius ends the subscription on its own after one notification */
+  oneShot: boolean;
+  /**
+   * Whether each notification is the full current state (an account, the
+   * latest slot or root), so the last one can be sent to new subscribers as
+   * a snapshot. Event streams such as logs or blocks are not.
+   */
+  snapshot: boolean;
+}
+
+/**
+ * A single upstream Helius subscription, shared by every client subscription
+ * with the same canonical `(method, params)` key.
+ */
+export interface UpstreamSubscription {
+  /** Canonical key from `canonicalKey(method, params, network)` */
+  key: string;
+  /** Solana network the subscription is for */
+  network: string;
   /** Helius subscription method, e.g. "accountSubscribe" */
   method: string;
   /** Original params sent to Helius */
   params: unknown[];
+  /**
+   * Pool index of the upstream connection this subscription is placed on
+   * (one of its network's); `null` until this instance subscribes upstream
+   * as the key's leader.
+   */
+  connection: number | null;
+  /**
+   * Whether this instance holds the Helius subscription. Always `true`
+   * without a cluster bus; followers receive notifications over the bus.
+   */
+  leader: boolean;
   /** Helius-assigned subscription ID (set once subscribe succeeds) */
   heliusSubId: number | null;
-  /** Promise for in-flight subscribe */
-  pendingPromise: Promise<number> | null;
+  /** Promise for an in-flight cluster join or subscribe */
+  pendingPromise: Promise<number | null> | null;
   /** Flag for pending-subscribe cancellation */
   cancelled: boolean;
-  /** Grace period timer for deferred upstream unsubscribe */
+  /** Proxy sub IDs of the client subscriptions attached to this upstream sub */
+  subscribers: Set<string>;
+  /** Backoff timer for retrying a failed re-subscribe */
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  /** Consecutive failed re-subscribe attempts */
+  retryAttempt: number;
+}
+
+/** Per-subscription delivery options; they don't affect upstream sharing */
+export interface DeliveryOptions {
+  /** Drop notifications that don't match */
+  filter?: NotificationFilterSpec;
+  /** Dotted paths to keep in each notification's `result` */
+  fields?: string[];
+  /** Most notifications per interval sent to the client */
+  throttle?: ThrottleSpec;
+  /** Hand notifications to this callback instead of a client socket */
+  deliver?: NotificationCallback;
+}
+
+/** Receives notifications for a subscription that has no client socket */
+export type NotificationCallback = (method: string, result: unknown) => void;
+
+/** A notification held for a disconnected subscriber until it resumes */
+export interface BufferedNotification {
+  /** Upstream notification method, e.g. "accountNotification" */
+  method: string;
+  /** Notification `result` payload */
+  result: unknown;
+}
+
+/** A client subscription attached to a shared {@link UpstreamSubscription} */
+export interface Subscription {
+  /** Proxy-generated subscription ID sent to the client */
+  proxySubId: string;
+  /** Numeric subscription ID sent to JSON-RPC clients instead of `proxySubId` */
+  rpcSubId: number;
+  /** Whether the owning client speaks JSON-RPC 2.0 pubsub */
+  jsonRpc: boolean;
+  /** The connection that owns this subscription */
+  connectionId: string;
+  /** Canonical key of the upstream subscription this is attached to */
+  key: string;
+  /** Solana network of the upstream subscription */
+  network: string;
+  /** Helius subscription method, e.g. "accountSubscribe" */
+  method: string;
+  /** Original params requested by the client */
+  params: unknown[];
+  /** Grace period timer for deferred detach from the upstream subscription */
   unsubscribeTimer: ReturnType<typeof setTimeout> | null;
+  /** Epoch ms `unsubscribeTimer` fires (meaningful only while it is set) */
+  removalAt: number;
+  /** Set when the client explicitly unsubscribed (not reclaimable by resume) */
+  unsubscribed: boolean;
+  /** Notifications received while the owning connection was gone */
+  buffered: BufferedNotification[];
+  /** Set when its one-shot upstream subscription ended while the client was gone */
+  completed: boolean;
+  /** Proxy-side filter evaluated before delivery */
+  filter: NotificationFilter | null;
+  /** Projection applied to each delivered `result` */
+  fields: string[] | null;
+  /** Rate limit applied to live (not buffered) notifications */
+  throttle: NotificationThrottle | null;
+  /** Set for in-process waiters (e.g. HTTP long-polls) that have no socket */
+  deliver: NotificationCallback | null;
 }
@@ -3,9 +3,10 @@ import { createHash } from 'crypto';
 /**
  * Produces a stable SHA-256 hex key for a subscription request
  * so that identical subscriptions from different clients are deduped.
+ * Requests for different Solana networks get different keys.
  */
-export function canonicalKey(method: string, params: unknown[]): string {
-  const payload = JSON.stringify({ method, params: sortDeep(params) });
+export function canonicalKey(method: string, params: unknown[], network?: string): string {
+  const payload = JSON.stringify({ network, method, params: sortDeep(params) });
   return createHash('sha256').update(payload).digest('hex');
 }
 
@@ -0,0 +1,216 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import WebSocket, { WebSocketServer } from 'ws';
+import { canonicalKey } from './canonical-key.util';
+import { RecordedFrame } from './upstream-recorder';
+
+export interface ReplayOptions {
+  /** Recording written by {@link UpstreamRecorder} */
+  path: string;
+  port: number;
+  /** Playback speed multiplier; `0` sends notifications without delay */
+  speed: number;
+  /** Start a subscription's notifications over once they run out (not at speed `0`) */
+  loop: boolean;
+  /** Drop every client socket this often; `0` never does */
+  disconnectEveryMs: number;
+}
+
+/** A recorded notification, timed from the key's first subscribe response */
+interface ReplayNotification {
+  offsetMs: number;
+  method: string;
+  result: unknown;
+}
+
+/**
+ * Mock Solana pubsub server that plays back a recording
+ * (`UPSTREAM_MODE=replay`), so the proxy runs offline without a Helius key.
+ *
+ * The recording is grouped by canonical key: each recorded `*Subscribe`
+ * request is matched to its response, and the notifications that followed
+ * for the returned ID are timed from the first subscribe for that key (so
+ * re-subscribes after a recorded reconnect continue the same timeline,
+ * gap included). A `*Subscribe` with the same method and params is
+ * answered with a fresh ID, and that subscription's notifications are sent
+ * with their original spacing divided by `speed`. Subscribes that aren't in
+ * the recording still get an ID but no notifications; `*Unsubscribe` always
+ * succeeds. {@link disconnectAll} (also run every `disconnectEveryMs`) drops
+ * the connected sockets to exercise the proxy's reconnect handling.
+ */
+export class ReplayServer {
+  private readonly logger = new Logger(ReplayServer.name);
+  private readonly recorded = new Map<string, ReplayNotification[]>();
+  private server: WebSocketServer | null = null;
+  /** Playback timers per socket, by the subscription ID handed out */
+  private readonly timers = new Map<WebSocket, Map<number, ReturnType<typeof setTimeout>>>();
+  private disconnectTimer: ReturnType<typeof setInterval> | null = null;
+  private nextSubId = 1;
+
+  constructor(private readonly options: ReplayOptions) {}
+
+  get url(): string {
+    return `ws://127.0.0.1:${this.options.port}`;
+  }
+
+  /** Load the recording and start listening. */
+  async start(): Promise<void> {
+    this.load();
+    const server = new WebSocketServer({ host: '127.0.0.1', port: this.options.port });
+    await new Promise<void>((resolve, reject) => {
+      server.once('listening', resolve);
+      server.once('error', reject);
+    });
+    this.server = server;
+    server.on('connection', (ws) => this.handleConnection(ws));
+    if (this.options.disconnectEveryMs > 0) {
+      this.disconnectTimer = setInterval(() => this.disconnectAll(), this.options.disconnectEveryMs);
+    }
+    this.logger.log(
+      `Replaying ${this.recorded.size} subscriptions from ${this.options.path} on ${this.url} (speed ${this.options.speed})`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (this.disconnectTimer) clearInterval(this.disconnectTimer);
+    for (const ws of [...this.timers.keys()]) this.drop(ws);
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Terminate every connected socket, as if the upstream went away.
+   *
+   * @returns How many sockets were dropped.
+   */
+  disconnectAll(): number {
+    const sockets = [...this.timers.keys()];
+    for (const ws of sockets) {
+      this.drop(ws);
+      ws.terminate();
+    }
+    if (sockets.length > 0) this.logger.warn(`Injected disconnect of ${sockets.length} socket(s)`);
+    return sockets.length;
+  }
+
+  /** Group the recording's notifications by the subscription key they belong to. */
+  private load() {
+    const lines = readFileSync(this.options.path, 'utf8').split('\n').filter((l) => l.trim());
+    /** `connection:rpcId` → subscribe request */
+    const requests = new Map<string, { method: string; params: unknown[] }>();
+    /** `connection:subId` → canonical key */
+    const subscriptions = new Map<string, string>();
+    /** canonical key → when its first subscribe was answered */
+    const startedAt = new Map<string, number>();
+
+    for (const line of lines) {
+      let entry: RecordedFrame;
+      try {
+        entry = JSON.parse(line) as RecordedFrame;
+      } catch {
+        continue;
+      }
+      const { frame, connection } = entry;
+      if (entry.dir === 'out') {
+        if (typeof frame.method === 'string' && frame.method.endsWith('Subscribe')) {
+          requests.set(`${connection}:${frame.id}`, {
+            method: frame.method,
+            params: (frame.params as unknown[]) ?? [],
+          });
+        }
+        continue;
+      }
+
+      if (typeof frame.id === 'number') {
+        const request = requests.get(`${connection}:${frame.id}`);
+        if (!request || typeof frame.result !== 'number') continue;
+        const key = canonicalKey(request.method, request.params);
+        subscriptions.set(`${connection}:${frame.result}`, key);
+        if (!startedAt.has(key)) {
+          startedAt.set(key, entry.t);
+          this.recorded.set(key, []);
+        }
+        continue;
+      }
+
+      const params = frame.params as { subscription?: number; result?: unknown } | undefined;
+      const key = subscriptions.get(`${connection}:${params?.subscription}`);
+      if (!key || typeof frame.method !== 'string') continue;
+      this.recorded.get(key)!.push({
+        offsetMs: entry.t - startedAt.get(key)!,
+        method: frame.method,
+        result: params?.result,
+      });
+    }
+  }
+
+  private handleConnection(ws: WebSocket) {
+    this.timers.set(ws, new Map());
+    ws.on('close', () => this.drop(ws));
+    ws.on('message', (data: WebSocket.Data) => {
+      let msg: { id?: number; method?: string; params?: unknown[] };
+      try {
+        msg = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (typeof msg.method !== 'string') return;
+      const params = msg.params ?? [];
+
+      if (msg.method.endsWith('Unsubscribe')) {
+        const timer = this.timers.get(ws)?.get(params[0] as number);
+        if (timer) clearTimeout(timer);
+        this.timers.get(ws)?.delete(params[0] as number);
+        this.send(ws, { jsonrpc: '2.0', id: msg.id, result: true });
+        return;
+      }
+      if (!msg.method.endsWith('Subscribe')) {
+        this.send(ws, { jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: 'Method not found' } });
+        return;
+      }
+
+      const subId = this.nextSubId++;
+      this.send(ws, { jsonrpc: '2.0', id: msg.id, result: subId });
+      const notifications = this.recorded.get(canonicalKey(msg.method, params));
+      if (notifications?.length) this.play(ws, subId, notifications, 0, Date.now());
+    });
+  }
+
+  /** Send notification `index` at its offset from `startedAt`, then schedule the next. */
+  private play(
+    ws: WebSocket,
+    subId: number,
+    notifications: ReplayNotification[],
+    index: number,
+    startedAt: number,
+  ) {
+    const { speed, loop } = this.options;
+    if (index >= notifications.length) {
+      if (!loop || speed <= 0) return;
+      index = 0;
+      startedAt = Date.now();
+    }
+    const n = notifications[index];
+    const dueAt = speed > 0 ? startedAt + n.offsetMs / speed : 0;
+    const timer = setTimeout(() => {
+      this.send(ws, {
+        jsonrpc: '2.0',
+        method: n.method,
+        params: { subscription: subId, result: n.result },
+      });
+      this.play(ws, subId, notifications, index + 1, startedAt);
+    }, Math.max(0, dueAt - Date.now()));
+    this.timers.get(ws)?.set(subId, timer);
+  }
+
+  private send(ws: WebSocket, frame: unknown) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(frame));
+  }
+
+  private drop(ws: WebSocket) {
+    const timers = this.timers.get(ws);
+    if (!timers) return;
+    for (const timer of timers.values()) clearTimeout(timer);
+    this.timers.delete(ws);
+  }
+}
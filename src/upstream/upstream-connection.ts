@@ -0,0 +1,414 @@
+import { Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import WebSocket from 'ws';
+import { MetricsService } from '../metrics/metrics.service';
+import { UpstreamEndpoints } from './upstream-endpoints';
+import { UpstreamRecorder } from './upstream-recorder';
+
+/** Limits for requests held while the socket is down */
+export interface RequestQueueOptions {
+  /** Most requests held at once; `0` disables queueing */
+  maxQueued: number;
+  /** How long a request may wait for the socket before it fails */
+  timeoutMs: number;
+}
+
+interface RpcRequest {
+  method: string;
+  params: unknown[];
+  /** Whether the request may wait in the queue while the socket is down */
+  queueable: boolean;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+interface PendingRequest {
+  request: RpcRequest;
+  timer: ReturnType<typeof setTimeout>;
+  endTimer: (labels: { outcome: string }) => void;
+}
+
+interface QueuedRequest {
+  request: RpcRequest;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Whether a request failed because the upstream is rate limiting us — a
+ * JSON-RPC error with code 429 / -32429 or a "rate limit" / "too many
+ * requests" message.
+ */
+export function isRateLimitError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /"code":-?(32)?429\b|rate.?limit|too many requests/i.test(message);
+}
+
+/**
+ * A single upstream WebSocket connection to the Helius RPC, one member of
+ * the pool managed by {@link UpstreamService}.
+ *
+ * Handles connection lifecycle (connect, ping, reconnect with exponential
+ * backoff) and multiplexes JSON-RPC requests/responses over the socket.
+ * Each connection reconnects independently; events carry the connection's
+ * pool index so subscribers can tell the sockets apart. Losing an open
+ * socket emits `upstream.disconnected`; the next successful connect reports
+ * how long the outage lasted. Every connect goes to the currently active
+ * endpoint, and failed connects and unanswered pings count against the
+ * endpoint's health.
+ *
+ * Queueable requests (subscribes) made while the socket is down wait in a
+ * bounded queue and are sent in order once it reconnects, or fail after
+ * the queue timeout. Queueable requests still awaiting a response when the
+ * socket drops are put back at the head of the queue; other in-flight
+ * requests fail right away, since their responses can no longer arrive.
+ *
+ * With a recorder, every frame sent or received is also written to the
+ * recording.
+ */
+export class UpstreamConnection {
+  private readonly logger: Logger;
+  private ws: WebSocket | null = null;
+  private rpcId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private queue: QueuedRequest[] = [];
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private destroyed = false;
+  /** Set when a ping is sent, cleared by the pong */
+  private awaitingPong = false;
+  /** Endpoint index of the current socket */
+  private endpoint = 0;
+  /** Socket {@link recycle} is closing */
+  private recycling: WebSocket | null = null;
+  /** When an open socket was lost; `null` while connected or before the first connect */
+  private disconnectedAt: number | null = null;
+
+  constructor(
+    readonly index: number,
+    private readonly endpoints: UpstreamEndpoints,
+    private readonly events: EventEmitter2,
+    private readonly metrics: MetricsService,
+    private readonly queueOptions: RequestQueueOptions,
+    private readonly recorder: UpstreamRecorder | null = null,
+  ) {
+    this.logger = new Logger(`${UpstreamConnection.name}#${index}`);
+  }
+
+  get isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  get pendingRequests(): number {
+    return this.pending.size;
+  }
+
+  get queuedRequests(): number {
+    return this.queue.length;
+  }
+
+  get reconnectAttempts(): number {
+    return this.reconnectAttempt;
+  }
+
+  /** Name of the endpoint the current socket is (or was last) connected to */
+  get endpointName(): string {
+    return this.endpoints.get(this.endpoint).name;
+  }
+
+  destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.stopPing();
+    for (const [, p] of this.pending) {
+      clearTimeout(p.timer);
+      p.request.reject(new Error('shutting down'));
+    }
+    this.pending.clear();
+    this.trackPending();
+    for (const q of this.queue) {
+      clearTimeout(q.timer);
+      q.request.reject(new Error('shutting down'));
+    }
+    this.queue = [];
+    this.trackQueued();
+    this.ws?.close();
+  }
+
+  /**
+   * Send a JSON-RPC request over this socket and return the parsed result.
+   *
+   * The request is assigned an auto-incrementing ID, serialized as JSON, and
+   * written to the upstream socket. A 30-second timeout rejects the promise
+   * if no response arrives. Round-trip time is recorded per method and
+   * outcome.
+   *
+   * @param queueable - Hold the request while the socket is down instead of
+   *                    failing it (see the class docs).
+   * @throws If the socket is not open (and the request can't be queued, or
+   *         waited longer than the queue timeout), the request times out, or
+   *         the response contains an `error` field.
+   */
+  sendRequest(method: string, params: unknown[], queueable = false): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const request: RpcRequest = { method, params, queueable, resolve, reject };
+      if (this.isConnected) {
+        this.write(request);
+      } else if (
+        queueable &&
+        !this.destroyed &&
+        this.queue.length < this.queueOptions.maxQueued
+      ) {
+        this.enqueue(request);
+        this.trackQueued();
+      } else {
+        reject(new Error('upstream not connected'));
+      }
+    });
+  }
+
+  /**
+   * Drop the current socket (or skip the pending reconnect delay) and
+   * connect again right away, to whichever endpoint is active.
+   */
+  recycle() {
+    if (this.destroyed) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+    if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+      // The close handler reconnects, without counting a connect cut short here as a failure
+      this.recycling = this.ws;
+      this.ws.terminate();
+    } else {
+      this.connect();
+    }
+  }
+
+  /**
+   * Open a new WebSocket to the active endpoint, wire up event handlers,
+   * and start the keepalive ping. On success, emits `upstream.reconnected` with this
+   * connection's index (and the outage duration, after a drop) so that
+   * {@link SubscriptionsService} can re-subscribe the subscriptions placed
+   * on it.
+   */
+  connect() {
+    if (this.destroyed) return;
+
+    const endpoint = this.endpoints.active;
+    const { name, url } = this.endpoints.get(endpoint);
+    this.endpoint = endpoint;
+    this.logger.log(`Connecting to upstream ${name}…`);
+    const ws = new WebSocket(url);
+    this.ws = ws;
+    let opened = false;
+
+    ws.on('open', () => {
+      opened = true;
+      this.logger.log(`Upstream connected to ${name}`);
+      this.endpoints.recordSuccess(endpoint);
+      this.reconnectAttempt = 0;
+      this.startPing();
+      this.flushQueue();
+      const outageMs = this.disconnectedAt != null ? Date.now() - this.disconnectedAt : null;
+      this.disconnectedAt = null;
+      this.events.emit('upstream.reconnected', this.index, outageMs);
+    });
+
+    ws.on('pong', () => {
+      this.awaitingPong = false;
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      try {
+        const msg = JSON.parse(data.toString());
+        this.handleMessage(msg);
+      } catch (err) {
+        this.logger.error('Failed to parse upstream message', err);
+      }
+    });
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      this.logger.warn(`Upstream closed: ${code} ${reason.toString()}`);
+      const recycled = this.recycling === ws;
+      if (recycled) this.recycling = null;
+      if (this.ws === ws) this.stopPing();
+      if (this.destroyed) return;
+      if (this.ws === ws) this.requeueInFlight();
+      if (opened) {
+        this.disconnectedAt = Date.now();
+        this.events.emit('upstream.disconnected', this.index);
+      } else if (!recycled) {
+        this.endpoints.recordFailure(endpoint, this.index);
+      }
+      if (this.ws === ws) this.scheduleReconnect();
+    });
+
+    ws.on('error', (err: Error) => {
+      this.logger.error(`Upstream error: ${err.message}`);
+    });
+  }
+
+  /**
+   * Route an incoming upstream message to the correct handler.
+   *
+   * - Messages with a numeric `id` are JSON-RPC responses — resolve or
+   *   reject the matching pending promise.
+   * - Messages with a `method` string are subscription notifications —
+   *   emit an `upstream.notification` event, tagged with this connection's
+   *   index, for fan-out to clients.
+   */
+  private handleMessage(msg: Record<string, unknown>) {
+    this.recorder?.record(this.index, 'in', msg);
+
+    // JSON-RPC response to our request
+    if (msg.id != null && typeof msg.id === 'number') {
+      const p = this.pending.get(msg.id);
+      if (p) {
+        clearTimeout(p.timer);
+        this.pending.delete(msg.id);
+        this.trackPending();
+        if (msg.error) {
+          p.endTimer({ outcome: 'error' });
+          p.request.reject(new Error(JSON.stringify(msg.error)));
+        } else {
+          p.endTimer({ outcome: 'ok' });
+          p.request.resolve(msg.result);
+        }
+      }
+      return;
+    }
+
+    // Subscription notification
+    if (msg.method && typeof msg.method === 'string') {
+      this.events.emit('upstream.notification', msg, this.index);
+    }
+  }
+
+  private trackPending() {
+    this.metrics.upstreamPendingRequests.set({ connection: this.index }, this.pending.size);
+  }
+
+  private trackQueued() {
+    this.metrics.upstreamQueuedRequests.set({ connection: this.index }, this.queue.length);
+  }
+
+  /** Write a request to the open socket and await its response. */
+  private write(request: RpcRequest) {
+    const { method, params } = request;
+    const id = this.rpcId++;
+    const endTimer = this.metrics.upstreamRequestDuration.startTimer({ method });
+    const timer = setTimeout(() => {
+      this.pending.delete(id);
+      this.trackPending();
+      endTimer({ outcome: 'timeout' });
+      this.metrics.upstreamTimeouts.inc({ method });
+      request.reject(new Error(`upstream timeout for rpc id ${id}`));
+    }, 30_000);
+
+    this.pending.set(id, { request, timer, endTimer });
+    this.trackPending();
+    const frame = { jsonrpc: '2.0', id, method, params };
+    this.recorder?.record(this.index, 'out', frame);
+    this.ws!.send(JSON.stringify(frame));
+  }
+
+  /** Hold a request until the socket reconnects or the queue timeout passes. */
+  private enqueue(request: RpcRequest, atHead = false) {
+    const queued: QueuedRequest = {
+      request,
+      timer: setTimeout(() => {
+        this.queue = this.queue.filter((q) => q !== queued);
+        this.trackQueued();
+        request.reject(new Error('upstream not connected (queued request timed out)'));
+      }, this.queueOptions.timeoutMs),
+    };
+    if (atHead) {
+      this.queue.unshift(queued);
+    } else {
+      this.queue.push(queued);
+    }
+  }
+
+  /** Send every queued request, oldest first, on the freshly opened socket. */
+  private flushQueue() {
+    const queued = this.queue;
+    if (queued.length === 0) return;
+    this.queue = [];
+    this.trackQueued();
+    this.logger.log(`Sending ${queued.length} queued request(s)`);
+    for (const q of queued) {
+      clearTimeout(q.timer);
+      this.write(q.request);
+    }
+  }
+
+  /**
+   * After the socket drops, put queueable requests still awaiting a response
+   * back at the head of the queue, in their original order, and fail the
+   * rest.
+   */
+  private requeueInFlight() {
+    if (this.pending.size === 0) return;
+    const inFlight = [...this.pending.values()];
+    this.pending.clear();
+    this.trackPending();
+    for (const p of inFlight.reverse()) {
+      clearTimeout(p.timer);
+      if (p.request.queueable && this.queueOptions.maxQueued > 0) {
+        this.enqueue(p.request, true);
+      } else {
+        p.endTimer({ outcome: 'error' });
+        p.request.reject(new Error('upstream disconnected'));
+      }
+    }
+    this.trackQueued();
+  }
+
+  /**
+   * Ping every 30 s. A ping still unanswered when the next one is due counts
+   * as an endpoint failure and drops the socket so it reconnects.
+   */
+  private startPing() {
+    this.stopPing();
+    this.pingInterval = setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN) return;
+      if (this.awaitingPong) {
+        this.logger.warn('Upstream ping timed out');
+        this.endpoints.recordFailure(this.endpoint, this.index);
+        this.ws.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      this.ws.ping();
+    }, 30_000);
+  }
+
+  private stopPing() {
+    this.awaitingPong = false;
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  /**
+   * Schedule a reconnection attempt using exponential backoff.
+   *
+   * Delay starts at 1 s and doubles each attempt, capped at 30 s, and is
+   * then jittered to between half and all of that so the pool's sockets
+   * (and other instances) don't reconnect in lockstep.
+   * Does nothing if the connection has been destroyed (module shutdown).
+   */
+  private scheduleReconnect() {
+    if (this.destroyed) return;
+    const backoff = Math.min(1000 * 2 ** this.reconnectAttempt, 30_000);
+    const delay = Math.round(backoff * (0.5 + Math.random() / 2));
+    this.reconnectAttempt++;
+    this.metrics.upstreamReconnects.inc({ connection: this.index });
+    this.logger.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+}
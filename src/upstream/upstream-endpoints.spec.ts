@@ -0,0 +1,62 @@
+import { UpstreamEndpoints } from './upstream-endpoints';
+
+describe('UpstreamEndpoints', () => {
+  const create = (threshold = 3) => {
+    const switches: string[] = [];
+    const endpoints = new UpstreamEndpoints(
+      [
+        { name: 'primary', url: 'ws://primary' },
+        { name: 'fallback', url: 'ws://fallback' },
+      ],
+      threshold,
+      (from, to) => switches.push(`${from.name}→${to.name}`),
+    );
+    return { endpoints, switches };
+  };
+
+  it('fails over once the active endpoint reaches the threshold', () => {
+    const { endpoints, switches } = create();
+
+    endpoints.recordFailure(0, 0);
+    endpoints.recordFailure(0, 0);
+    expect(endpoints.active).toBe(0);
+    endpoints.recordFailure(0, 0);
+
+    expect(endpoints.active).toBe(1);
+    expect(switches).toEqual(['primary→fallback']);
+  });
+
+  it('counts a failure every pool connection sees once', () => {
+    const { endpoints } = create();
+
+    // An outage: each of four connections fails to reconnect, twice
+    for (let round = 0; round < 2; round++) {
+      for (let connection = 0; connection < 4; connection++) endpoints.recordFailure(0, connection);
+    }
+
+    expect(endpoints.active).toBe(0);
+    expect(endpoints.status[0]).toMatchObject({ consecutiveFailures: 2, healthy: true });
+  });
+
+  it('starts counting again after a successful connect', () => {
+    const { endpoints } = create();
+    endpoints.recordFailure(0, 0);
+    endpoints.recordFailure(0, 0);
+
+    endpoints.recordSuccess(0);
+    endpoints.recordFailure(0, 1);
+    endpoints.recordFailure(0, 0);
+
+    expect(endpoints.status[0].consecutiveFailures).toBe(1);
+  });
+
+  it('counts the failback probe like a connection', () => {
+    const { endpoints } = create(2);
+    endpoints.activate(1);
+
+    endpoints.recordFailure(0, 'probe');
+    endpoints.recordFailure(0, 'probe');
+
+    expect(endpoints.status[0]).toMatchObject({ active: false, consecutiveFailures: 2, healthy: false });
+  });
+});
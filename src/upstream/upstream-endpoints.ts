@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs';
+
+/** One upstream provider endpoint the pool can connect to */
+export interface UpstreamEndpoint {
+  /** Label shown in logs, `/health` and metrics (never the URL, which may carry credentials) */
+  name: string;
+  /** WebSocket URL, including the API key if the provider takes one */
+  url: string;
+}
+
+/** A named Solana network (e.g. `mainnet`, `devnet`) and its endpoints in priority order */
+export interface UpstreamNetworkDefinition {
+  name: string;
+  endpoints: UpstreamEndpoint[];
+}
+
+/** Network names double as URL path segments */
+const NETWORK_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+interface EndpointEntry {
+  name?: string;
+  url: string;
+  /** Appended to the URL as `api-key` (the Helius convention) */
+  apiKey?: string;
+}
+
+/** Who saw an endpoint fail: a pool connection's index, or the failback probe */
+export type FailureReporter = number | 'probe';
+
+interface EndpointHealth {
+  consecutiveFailures: number;
+  /** Consecutive failures each reporter has seen since the last success */
+  failuresByReporter: Map<FailureReporter, number>;
+  lastFailureAt: number | null;
+  lastConnectedAt: number | null;
+}
+
+/**
+ * Load the ordered endpoint list from a JSON file:
+ *
+ * ```json
+ * { "endpoints": [{ "name": "helius-mainnet", "url": "wss://mainnet.helius-rpc.com", "apiKey": "…" }] }
+ * ```
+ *
+ * The first entry is the primary; the rest are fallbacks in priority order.
+ */
+export function loadEndpoints(path: string): UpstreamEndpoint[] {
+  const file = JSON.parse(readFileSync(path, 'utf8')) as { endpoints?: EndpointEntry[] };
+  return parseEndpoints(file.endpoints ?? []);
+}
+
+/**
+ * Load named Solana networks, each with its own ordered endpoint list, from
+ * a JSON file:
+ *
+ * ```json
+ * { "networks": [
+ *   { "name": "mainnet", "endpoints": [{ "url": "wss://mainnet.helius-rpc.com", "apiKey": "…" }] },
+ *   { "name": "devnet", "endpoints": [{ "url": "wss://devnet.helius-rpc.com", "apiKey": "…" }] }
+ * ] }
+ * ```
+ *
+ * The first network is the default. Networks with an invalid or duplicate
+ * name, or without endpoints, are skipped.
+ */
+export function loadNetworks(path: string): UpstreamNetworkDefinition[] {
+  const file = JSON.parse(readFileSync(path, 'utf8')) as {
+    networks?: { name?: string; endpoints?: EndpointEntry[] }[];
+  };
+  const networks: UpstreamNetworkDefinition[] = [];
+  for (const entry of file.networks ?? []) {
+    const name = entry.name ?? '';
+    if (!NETWORK_NAME.test(name) || networks.some((c) => c.name === name)) continue;
+    const endpoints = parseEndpoints(entry.endpoints ?? []);
+    if (endpoints.length > 0) networks.push({ name, endpoints });
+  }
+  return networks;
+}
+
+function parseEndpoints(entries: EndpointEntry[]): UpstreamEndpoint[] {
+  return entries
+    .filter((e) => typeof e.url === 'string' && e.url.length > 0)
+    .map((e, i) => ({
+      name: e.name ?? `endpoint-${i}`,
+      url: e.apiKey ? `${e.url}/?api-key=${e.apiKey}` : e.url,
+    }));
+}
+
+/**
+ * Ordered upstream endpoints with per-endpoint health and the one the pool
+ * is currently using.
+ *
+ * Connect and ping failures are counted per endpoint and reset by the next
+ * successful connect. An endpoint's count is the most consecutive failures
+ * any one reporter has seen, so an outage that fails every pool connection
+ * at once counts once, not once per connection. Once the active endpoint
+ * reaches `threshold` consecutive failures, the next endpoint in the list is activated and
+ * `onSwitch` is called so the pool can move over.
+ */
+export class UpstreamEndpoints {
+  private readonly health: EndpointHealth[];
+  private activeIndex = 0;
+
+  constructor(
+    private readonly endpoints: UpstreamEndpoint[],
+    private readonly threshold: number,
+    private readonly onSwitch: (from: UpstreamEndpoint, to: UpstreamEndpoint) => void,
+  ) {
+    this.health = endpoints.map(() => ({
+      consecutiveFailures: 0,
+      failuresByReporter: new Map(),
+      lastFailureAt: null,
+      lastConnectedAt: null,
+    }));
+  }
+
+  /** Index of the endpoint new connections should use. */
+  get active(): number {
+    return this.activeIndex;
+  }
+
+  get size(): number {
+    return this.endpoints.length;
+  }
+
+  get(index: number): UpstreamEndpoint {
+    return this.endpoints[index];
+  }
+
+  /** Per-endpoint health for `/health`. */
+  get status() {
+    return this.endpoints.map((e, i) => ({
+      name: e.name,
+      active: i === this.activeIndex,
+      healthy: this.health[i].consecutiveFailures < this.threshold,
+      consecutiveFailures: this.health[i].consecutiveFailures,
+      lastFailureAt: this.health[i].lastFailureAt,
+      lastConnectedAt: this.health[i].lastConnectedAt,
+    }));
+  }
+
+  recordSuccess(index: number) {
+    this.resetFailures(index);
+    this.health[index].lastConnectedAt = Date.now();
+  }
+
+  /**
+   * Count a failed connect or ping seen by `reporter`, failing over if the
+   * active endpoint is over the threshold.
+   */
+  recordFailure(index: number, reporter: FailureReporter) {
+    const health = this.health[index];
+    const failures = (health.failuresByReporter.get(reporter) ?? 0) + 1;
+    health.failuresByReporter.set(reporter, failures);
+    health.lastFailureAt = Date.now();
+    // Another reporter already counted this failure
+    if (failures <= health.consecutiveFailures) return;
+    health.consecutiveFailures = failures;
+    if (
+      index === this.activeIndex &&
+      this.endpoints.length > 1 &&
+      health.consecutiveFailures >= this.threshold
+    ) {
+      this.activate((index + 1) % this.endpoints.length);
+    }
+  }
+
+  /** Make an endpoint active and notify the pool. No-op if it already is. */
+  activate(index: number) {
+    if (index === this.activeIndex) return;
+    const from = this.endpoints[this.activeIndex];
+    this.activeIndex = index;
+    this.resetFailures(index);
+    this.onSwitch(from, this.endpoints[index]);
+  }
+
+  private resetFailures(index: number) {
+    this.health[index].consecutiveFailures = 0;
+    this.health[index].failuresByReporter.clear();
+  }
+}
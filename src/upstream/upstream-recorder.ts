@@ -0,0 +1,39 @@
+import { WriteStream, createWriteStream } from 'fs';
+
+/** One line of a recording file */
+export interface RecordedFrame {
+  /** Epoch ms the frame was sent or received */
+  t: number;
+  /** Pool index of the upstream connection */
+  connection: number;
+  /** `out` for requests sent upstream, `in` for frames received */
+  dir: 'in' | 'out';
+  frame: Record<string, unknown>;
+}
+
+/**
+ * Writes every upstream frame, with a timestamp and its pool connection,
+ * to a JSONL file (`UPSTREAM_MODE=record`). Requests sent upstream are
+ * recorded too, so a replay can tell which subscription each notification
+ * belongs to. The file holds no credentials.
+ *
+ * Each run starts the file over: replay spaces notifications by their
+ * timestamps, so frames of an earlier session would stall it for as long
+ * as the proxy was down in between.
+ */
+export class UpstreamRecorder {
+  private readonly out: WriteStream;
+
+  constructor(readonly path: string) {
+    this.out = createWriteStream(path, { flags: 'w' });
+  }
+
+  record(connection: number, dir: RecordedFrame['dir'], frame: Record<string, unknown>) {
+    const line: RecordedFrame = { t: Date.now(), connection, dir, frame };
+    this.out.write(`${JSON.stringify(line)}\n`);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.out.end(resolve));
+  }
+}
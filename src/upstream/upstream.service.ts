@@ -2,185 +2,386 @@ import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/commo
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import WebSocket from 'ws';
+import { MetricsService } from '../metrics/metrics.service';
+import { UpstreamConnection } from './upstream-connection';
+import {
+  UpstreamNetworkDefinition,
+  UpstreamEndpoint,
+  UpstreamEndpoints,
+  loadNetworks,
+  loadEndpoints,
+} from './upstream-endpoints';
+import { UpstreamRecorder } from './upstream-recorder';
+import { ReplayServer } from './replay-server';
 
-interface PendingRequest {
-  resolve: (result: unknown) => void;
-  reject: (err: Error) => void;
-  timer: ReturnType<typeof setTimeout>;
+export type UpstreamPlacement = 'least-loaded' | 'hash';
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+/** The connections and endpoint failover state of one Solana network */
+interface NetworkPool {
+  name: string;
+  endpoints: UpstreamEndpoints;
+  connections: UpstreamConnection[];
+  failbackTimer: ReturnType<typeof setInterval> | null;
+  probing: boolean;
 }
 
 /**
- * Manages the single upstream WebSocket connection to the Helius RPC.
+ * Manages the pool of upstream WebSocket connections to the Helius RPC.
+ *
+ * Each Solana network the proxy serves (`UPSTREAM_NETWORKS_FILE`, or a
+ * single `default` network) gets `UPSTREAM_POOL_SIZE`
+ * {@link UpstreamConnection}s of its own, each of which reconnects
+ * independently. Pool indices are unique across networks. New upstream
+ * subscriptions are placed on one of their network's connections — either
+ * the one carrying the fewest subscriptions or one chosen by hashing the
+ * subscription's canonical key. Subscription notifications are emitted as
+ * `upstream.notification` events for {@link SubscriptionsService} to
+ * dispatch to clients.
+ *
+ * A network connects to one endpoint at a time from an ordered list (its
+ * entry in the networks file, `UPSTREAM_ENDPOINTS_FILE`, or the single
+ * `HELIUS_WS_URL`). When the active endpoint keeps failing, the network's
+ * connections are moved to the next one and re-subscribe there through the
+ * normal reconnect path. While a fallback is active, higher-priority
+ * endpoints are probed periodically and the network fails back to the first
+ * one that accepts a connection.
  *
- * Handles connection lifecycle (connect, ping, reconnect with exponential
- * backoff) and multiplexes JSON-RPC requests/responses over the socket.
- * Subscription notifications are emitted as `upstream.notification` events
- * for {@link SubscriptionsService} to dispatch to clients.
+ * `UPSTREAM_MODE=record` additionally writes every upstream frame to
+ * `UPSTREAM_RECORDING_FILE`; `UPSTREAM_MODE=replay` instead connects the
+ * pool to a built-in {@link ReplayServer} that plays that file back, so no
+ * Helius key or network access is needed.
  */
 @Injectable()
 export class UpstreamService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(UpstreamService.name);
-  private ws: WebSocket | null = null;
-  private rpcId = 1;
-  private readonly pending = new Map<number, PendingRequest>();
-  private reconnectAttempt = 0;
-  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-  private pingInterval: ReturnType<typeof setInterval> | null = null;
-  private destroyed = false;
+  private readonly connections: UpstreamConnection[] = [];
+  /** Upstream subscriptions placed on each connection, by pool index */
+  private readonly load: number[] = [];
+  private readonly placement: UpstreamPlacement;
+  /** Network name → its pool; the first is the default network */
+  private readonly pools = new Map<string, NetworkPool>();
+  /** Network pool of each connection, by pool index */
+  private readonly connectionPools: NetworkPool[] = [];
+  private recorder: UpstreamRecorder | null = null;
+  private replay: ReplayServer | null = null;
 
   constructor(
     private readonly config: ConfigService,
     private readonly events: EventEmitter2,
-  ) {}
+    private readonly metrics: MetricsService,
+  ) {
+    this.placement = this.config.get<UpstreamPlacement>('UPSTREAM_PLACEMENT', 'least-loaded');
+  }
+
+  async onModuleInit() {
+    const size = Math.max(1, this.config.get<number>('UPSTREAM_POOL_SIZE', 1));
+    const mode = this.config.get<UpstreamMode>('UPSTREAM_MODE', 'live');
+    const recordingFile = this.config.get<string>('UPSTREAM_RECORDING_FILE', 'upstream-recording.jsonl');
+    if (mode === 'replay') {
+      this.replay = new ReplayServer({
+        path: recordingFile,
+        port: this.config.get<number>('REPLAY_PORT', 8910),
+        speed: this.config.get<number>('REPLAY_SPEED', 1),
+        loop: this.config.get<boolean>('REPLAY_LOOP', false),
+        disconnectEveryMs: this.config.get<number>('REPLAY_DISCONNECT_EVERY_MS', 0),
+      });
+      await this.replay.start();
+    }
+    if (mode === 'record') {
+      this.recorder = new UpstreamRecorder(recordingFile);
+      this.logger.log(`Recording upstream frames to ${recordingFile}`);
+    }
+
+    const threshold = Math.max(1, this.config.get<number>('UPSTREAM_FAILOVER_THRESHOLD', 3));
+    const failbackMs = this.config.get<number>('UPSTREAM_FAILBACK_INTERVAL_MS', 30000);
+    const queueOptions = {
+      maxQueued: this.config.get<number>('UPSTREAM_QUEUE_MAX', 1000),
+      timeoutMs: this.config.get<number>('UPSTREAM_QUEUE_TIMEOUT_MS', 15000),
+    };
+    for (const network of this.loadNetworkList()) {
+      // Every network plays back the same recording in replay mode
+      const list = this.replay ? [{ name: 'replay', url: this.replay.url }] : network.endpoints;
+      const pool: NetworkPool = {
+        name: network.name,
+        endpoints: new UpstreamEndpoints(list, threshold, (from, to) =>
+          this.handleSwitch(pool, from, to),
+        ),
+        connections: [],
+        failbackTimer: null,
+        probing: false,
+      };
+      this.pools.set(pool.name, pool);
+
+      this.logger.log(
+        `Opening ${size} upstream connection(s) for ${pool.name}, placement: ${this.placement}, endpoints: ${list.map((e) => e.name).join(' → ')}`,
+      );
+      for (let i = 0; i < size; i++) {
+        const conn = new UpstreamConnection(
+          this.connections.length,
+          pool.endpoints,
+          this.events,
+          this.metrics,
+          queueOptions,
+          this.recorder,
+        );
+        this.connections.push(conn);
+        this.connectionPools.push(pool);
+        this.load.push(0);
+        pool.connections.push(conn);
+        conn.connect();
+      }
 
-  onModuleInit() {
-    this.connect();
+      if (list.length > 1 && failbackMs > 0) {
+        pool.failbackTimer = setInterval(() => void this.probeFailback(pool), failbackMs);
+      }
+    }
   }
 
-  onModuleDestroy() {
-    this.destroyed = true;
-    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
-    if (this.pingInterval) clearInterval(this.pingInterval);
-    for (const [, p] of this.pending) {
-      clearTimeout(p.timer);
-      p.reject(new Error('shutting down'));
+  async onModuleDestroy() {
+    for (const pool of this.pools.values()) {
+      if (pool.failbackTimer) clearInterval(pool.failbackTimer);
+    }
+    for (const conn of this.connections) {
+      conn.destroy();
     }
-    this.pending.clear();
-    this.ws?.close();
+    await this.recorder?.close();
+    await this.replay?.stop();
   }
 
-  get isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+  /** Names of the networks served, the default first. */
+  get networks(): string[] {
+    return [...this.pools.keys()];
+  }
+
+  /** The network clients get when they don't pick one. */
+  get defaultNetwork(): string {
+    return this.networks[0];
   }
 
   /**
-   * Send a JSON-RPC request to Helius and return the parsed result.
-   *
-   * The request is assigned an auto-incrementing ID, serialized as JSON, and
-   * written to the upstream socket. A 30-second timeout rejects the promise
-   * if no response arrives.
+   * The network a client asked for, or the default if it didn't ask.
    *
-   * @param method - The JSON-RPC method name (e.g. `accountSubscribe`).
-   * @param params - Positional parameters for the RPC call.
-   * @returns The `result` field from the upstream JSON-RPC response.
-   * @throws If the upstream socket is not open, the request times out, or
-   *         the response contains an `error` field.
+   * @returns The network name, or `undefined` if no such network is served.
    */
-  sendRequest(method: string, params: unknown[]): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        return reject(new Error('upstream not connected'));
-      }
-      const id = this.rpcId++;
-      const timer = setTimeout(() => {
-        this.pending.delete(id);
-        reject(new Error(`upstream timeout for rpc id ${id}`));
-      }, 30_000);
-
-      this.pending.set(id, { resolve, reject, timer });
-      this.ws.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
-    });
+  resolveNetwork(requested: string | null | undefined): string | undefined {
+    if (!requested) return this.defaultNetwork;
+    return this.pools.has(requested) ? requested : undefined;
   }
 
-  /**
-   * Open a new WebSocket to Helius, wire up event handlers, and start the
-   * keepalive ping. On success, emits `upstream.reconnected` so that
-   * {@link SubscriptionsService} can re-subscribe active subscriptions.
-   */
-  private connect() {
-    if (this.destroyed) return;
+  /** Name of the network a pool connection belongs to. */
+  networkOf(connection: number): string | undefined {
+    return this.connectionPools[connection]?.name;
+  }
 
-    const apiKey = this.config.get<string>('HELIUS_API_KEY');
-    const baseUrl = this.config.get<string>('HELIUS_WS_URL');
-    const url = `${baseUrl}/?api-key=${apiKey}`;
+  /** `true` if every connection in the pool is open. */
+  get isConnected(): boolean {
+    return this.connections.length > 0 && this.connections.every((c) => c.isConnected);
+  }
 
-    this.logger.log('Connecting to Helius upstream…');
-    this.ws = new WebSocket(url);
+  /** Whether a single pool connection is open. */
+  isConnectionOpen(connection: number): boolean {
+    return this.connections[connection]?.isConnected ?? false;
+  }
 
-    this.ws.on('open', () => {
-      this.logger.log('Upstream connected');
-      this.reconnectAttempt = 0;
-      this.startPing();
-      this.events.emit('upstream.reconnected');
-    });
+  /** Name of the endpoint the default network is using. */
+  get activeEndpoint(): string {
+    return this.networkStatus(this.defaultNetwork)!.endpoint;
+  }
 
-    this.ws.on('message', (data: WebSocket.Data) => {
-      try {
-        const msg = JSON.parse(data.toString());
-        this.handleMessage(msg);
-      } catch (err) {
-        this.logger.error('Failed to parse upstream message', err);
-      }
-    });
+  /** Per-endpoint health of the default network, for `/health`. */
+  get endpointStatus() {
+    return this.networkStatus(this.defaultNetwork)!.endpoints;
+  }
 
-    this.ws.on('close', (code: number, reason: Buffer) => {
-      this.logger.warn(`Upstream closed: ${code} ${reason.toString()}`);
-      this.stopPing();
-      this.scheduleReconnect();
-    });
+  /** Upstream state of one network for `/health`, or `undefined` if unknown. */
+  networkStatus(name: string) {
+    const pool = this.pools.get(name);
+    if (!pool) return undefined;
+    return {
+      connected: pool.connections.every((c) => c.isConnected),
+      endpoint: pool.endpoints.get(pool.endpoints.active).name,
+      endpoints: pool.endpoints.status,
+      connections: pool.connections.map((c) => c.index),
+      upstreamSubscriptions: pool.connections.reduce((sum, c) => sum + this.load[c.index], 0),
+    };
+  }
 
-    this.ws.on('error', (err: Error) => {
-      this.logger.error(`Upstream error: ${err.message}`);
-    });
+  /** Requests waiting for their connection to reconnect, across the pool. */
+  get queuedRequests(): number {
+    return this.connections.reduce((sum, c) => sum + c.queuedRequests, 0);
+  }
+
+  /** Per-connection state for `/health`. */
+  get status() {
+    return this.connections.map((c) => ({
+      index: c.index,
+      network: this.connectionPools[c.index].name,
+      endpoint: c.endpointName,
+      connected: c.isConnected,
+      subscriptions: this.load[c.index],
+      pendingRequests: c.pendingRequests,
+      queuedRequests: c.queuedRequests,
+      reconnectAttempts: c.reconnectAttempts,
+    }));
   }
 
   /**
-   * Route an incoming upstream message to the correct handler.
+   * Drop and reopen pool connections right away; their subscriptions are
+   * re-sent by the usual reconnect handling.
    *
-   * - Messages with a numeric `id` are JSON-RPC responses — resolve or
-   *   reject the matching pending promise.
-   * - Messages with a `method` string are subscription notifications —
-   *   emit an `upstream.notification` event for fan-out to clients.
+   * @param connection - Pool index to reconnect, or every connection if omitted.
+   * @returns `false` if the index is out of range.
    */
-  private handleMessage(msg: Record<string, unknown>) {
-    // JSON-RPC response to our request
-    if (msg.id != null && typeof msg.id === 'number') {
-      const p = this.pending.get(msg.id);
-      if (p) {
-        clearTimeout(p.timer);
-        this.pending.delete(msg.id);
-        if (msg.error) {
-          p.reject(new Error(JSON.stringify(msg.error)));
-        } else {
-          p.resolve(msg.result);
-        }
+  reconnect(connection?: number): boolean {
+    if (connection === undefined) {
+      for (const conn of this.connections) conn.recycle();
+      return true;
+    }
+    const conn = this.connections[connection];
+    if (!conn) return false;
+    conn.recycle();
+    return true;
+  }
+
+  /**
+   * Drop the replay server's sockets, as if the upstream went away, to
+   * exercise reconnect handling.
+   *
+   * @returns How many sockets were dropped, or `null` outside replay mode.
+   */
+  injectDisconnect(): number | null {
+    return this.replay ? this.replay.disconnectAll() : null;
+  }
+
+  /**
+   * Choose the connection of a network a new upstream subscription should
+   * live on and count it against that connection's load. Pair with
+   * {@link release}.
+   *
+   * @param key - Canonical key of the subscription (used by `hash` placement).
+   * @param network - Name of the network the subscription is for.
+   * @returns The pool index of the chosen connection.
+   * @throws If the network is unknown.
+   */
+  acquire(key: string, network: string): number {
+    const pool = this.pools.get(network);
+    if (!pool) throw new Error(`Unknown network: ${network}`);
+    const indices = pool.connections.map((c) => c.index);
+    let index = indices[0];
+    if (this.placement === 'hash') {
+      index = indices[parseInt(key.slice(0, 8), 16) % indices.length];
+    } else {
+      for (const i of indices) {
+        if (this.load[i] < this.load[index]) index = i;
       }
-      return;
     }
+    this.load[index]++;
+    return index;
+  }
 
-    // Subscription notification
-    if (msg.method && typeof msg.method === 'string') {
-      this.events.emit('upstream.notification', msg);
+  /** Release a subscription previously placed with {@link acquire}. */
+  release(index: number) {
+    if (this.load[index] > 0) this.load[index]--;
+  }
+
+  /**
+   * Send a JSON-RPC request to Helius over one pool connection and return
+   * the parsed result.
+   *
+   * @param method - The JSON-RPC method name (e.g. `accountSubscribe`).
+   * @param params - Positional parameters for the RPC call.
+   * @param connection - Pool index of the connection to send on.
+   * @param queueable - While the connection is down, hold the request until
+   *                    it reconnects (up to `UPSTREAM_QUEUE_TIMEOUT_MS`)
+   *                    instead of failing it. Only safe for subscribes.
+   * @returns The `result` field from the upstream JSON-RPC response.
+   * @throws If the upstream socket is not open, the request times out, or
+   *         the response contains an `error` field.
+   */
+  sendRequest(
+    method: string,
+    params: unknown[],
+    connection: number,
+    queueable = false,
+  ): Promise<unknown> {
+    const conn = this.connections[connection];
+    if (!conn) {
+      return Promise.reject(new Error(`unknown upstream connection ${connection}`));
     }
+    return conn.sendRequest(method, params, queueable);
   }
 
-  private startPing() {
-    this.stopPing();
-    this.pingInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.ping();
-      }
-    }, 30_000);
+  /** The configured networks, or a single `default` network. */
+  private loadNetworkList(): UpstreamNetworkDefinition[] {
+    const path = this.config.get<string>('UPSTREAM_NETWORKS_FILE', '');
+    if (path) {
+      const networks = loadNetworks(path);
+      if (networks.length > 0) return networks;
+      this.logger.warn(`No networks in ${path}, using a single default network`);
+    }
+    return [{ name: 'default', endpoints: this.loadEndpointList() }];
   }
 
-  private stopPing() {
-    if (this.pingInterval) {
-      clearInterval(this.pingInterval);
-      this.pingInterval = null;
+  /** The configured endpoint list, or the single Helius endpoint. */
+  private loadEndpointList(): UpstreamEndpoint[] {
+    const path = this.config.get<string>('UPSTREAM_ENDPOINTS_FILE', '');
+    if (path) {
+      const list = loadEndpoints(path);
+      if (list.length > 0) return list;
+      this.logger.warn(`No endpoints in ${path}, using HELIUS_WS_URL`);
+    }
+    const apiKey = this.config.get<string>('HELIUS_API_KEY');
+    const baseUrl = this.config.get<string>('HELIUS_WS_URL');
+    return [{ name: 'helius', url: `${baseUrl}/?api-key=${apiKey}` }];
+  }
+
+  /** Move every connection of a network to its newly active endpoint. */
+  private handleSwitch(pool: NetworkPool, from: UpstreamEndpoint, to: UpstreamEndpoint) {
+    this.logger.warn(`Switching ${pool.name} upstream endpoint: ${from.name} → ${to.name}`);
+    this.metrics.upstreamEndpointSwitches.inc({ endpoint: to.name });
+    for (const conn of pool.connections) {
+      conn.recycle();
     }
   }
 
   /**
-   * Schedule a reconnection attempt using exponential backoff.
-   *
-   * Delay starts at 1 s and doubles each attempt, capped at 30 s.
-   * Does nothing if the service has been destroyed (module shutdown).
+   * While a fallback endpoint is active, try each higher-priority endpoint
+   * in order and fail back to the first one that accepts a connection.
    */
-  private scheduleReconnect() {
-    if (this.destroyed) return;
-    const delay = Math.min(1000 * 2 ** this.reconnectAttempt, 30_000);
-    this.reconnectAttempt++;
-    this.logger.log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
-    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  private async probeFailback(pool: NetworkPool) {
+    const { endpoints } = pool;
+    if (pool.probing || endpoints.active === 0) return;
+    pool.probing = true;
+    try {
+      for (let i = 0; i < endpoints.active; i++) {
+        if (await this.probe(endpoints.get(i))) {
+          endpoints.recordSuccess(i);
+          endpoints.activate(i);
+          return;
+        }
+        endpoints.recordFailure(i, 'probe');
+      }
+    } finally {
+      pool.probing = false;
+    }
+  }
+
+  /** Open a throwaway socket to an endpoint; resolves `true` if it connects within 10 s. */
+  private probe(endpoint: UpstreamEndpoint): Promise<boolean> {
+    return new Promise((resolve) => {
+      const ws = new WebSocket(endpoint.url);
+      const timer = setTimeout(() => ws.terminate(), 10_000);
+      ws.on('open', () => {
+        clearTimeout(timer);
+        ws.close();
+        resolve(true);
+      });
+      ws.on('error', () => undefined);
+      ws.on('close', () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+    });
   }
 }